@@ -0,0 +1,118 @@
+import {Request} from "express";
+import {JwtPayload} from "jsonwebtoken";
+import {decodeClaims} from "./encrypt";
+import {
+    asyncMiddleware,
+    Middleware,
+    NoPermissionException,
+    UnauthorizedException,
+    withMetadata,
+} from "./server-http";
+
+export interface Claims {
+    userId: string;
+    roles: string[];
+    permissions: string[];
+}
+
+export type Requirement = (claims: Claims, request: Request) => boolean | Promise<boolean>;
+
+export function getClaims(payload?: JwtPayload): Claims | undefined {
+    if (!payload?.sub) {
+        return undefined;
+    }
+    return {
+        userId: payload.sub,
+        roles: decodeClaims(payload.rle),
+        permissions: decodeClaims(payload.prm),
+    };
+}
+
+export function permissionMatches(granted: string, required: string) {
+    if (granted === "*" || granted === required) {
+        return true;
+    }
+    if (!granted.endsWith(":*")) {
+        return false;
+    }
+    const prefix = granted.substring(0, granted.length - 1);
+    return required.startsWith(prefix);
+}
+
+export function hasRoles(...roles: string[]): Requirement {
+    return claims => roles.every(role => claims.roles.includes(role));
+}
+
+export function hasAnyRole(...roles: string[]): Requirement {
+    return claims => roles.some(role => claims.roles.includes(role));
+}
+
+export function hasPermissions(...permissions: string[]): Requirement {
+    return claims => permissions.every(
+        permission => claims.permissions.some(granted => permissionMatches(granted, permission))
+    );
+}
+
+export function hasAnyPermission(...permissions: string[]): Requirement {
+    return claims => permissions.some(
+        permission => claims.permissions.some(granted => permissionMatches(granted, permission))
+    );
+}
+
+export function isOwner(param: string, findOwnerId?: (value: string, request: Request) => Promise<string | undefined>): Requirement {
+    return async function (claims, request) {
+        const value = request.params[param];
+        if (value === undefined) {
+            return false;
+        }
+        const ownerId = findOwnerId ? await findOwnerId(value, request) : value;
+        return ownerId !== undefined && String(ownerId) === claims.userId;
+    };
+}
+
+export function allOf(...requirements: Requirement[]): Requirement {
+    return async function (claims, request) {
+        for (const requirement of requirements) {
+            if (!await requirement(claims, request)) {
+                return false;
+            }
+        }
+        return true;
+    };
+}
+
+export function anyOf(...requirements: Requirement[]): Requirement {
+    return async function (claims, request) {
+        for (const requirement of requirements) {
+            if (await requirement(claims, request)) {
+                return true;
+            }
+        }
+        return false;
+    };
+}
+
+export function authorize(requirement: Requirement, message: string = "No permission"): Middleware {
+    return withMetadata(asyncMiddleware(async function (request, _response) {
+        const claims = getClaims(request.data.token);
+        if (!claims) {
+            throw new UnauthorizedException("Missing token claims, use hasAuthorization first");
+        }
+        if (!await requirement(claims, request)) {
+            throw new NoPermissionException(message);
+        }
+    }), { authorization: true });
+}
+
+export function requireRoles(...roles: string[]): Middleware {
+    return authorize(hasRoles(...roles), `Require roles: ${roles.join(", ")}`);
+}
+
+export function requirePermissions(...permissions: string[]): Middleware {
+    return authorize(hasPermissions(...permissions), `Require permissions: ${permissions.join(", ")}`);
+}
+
+export function requireOwnership(param: string, bypass?: Requirement): Middleware {
+    const ownership = isOwner(param);
+    return authorize(bypass ? anyOf(ownership, bypass) : ownership, "Not the owner of this resource");
+}
@@ -0,0 +1,245 @@
+import knex from "knex";
+import Joi from "joi";
+import {Dayjs, ManipulateType} from "dayjs";
+import datetime, {DateInput, parseDate} from "./date";
+import env, {registerEnv} from "./env";
+
+const calendarEnv = registerEnv("calendar", {
+    CALENDAR_FISCAL_YEAR_START_MONTH: Joi.number().integer().min(1).max(12).default(1)
+        .description("First month of the fiscal year, 1 = January"),
+    CALENDAR_WEEK_START: Joi.number().integer().min(0).max(6).default(1)
+        .description("First day of the week, 0 = Sunday"),
+    CALENDAR_WEEKEND_DAYS: Joi.string().pattern(/^[0-6](,[0-6])*$/).allow("").default("0,6")
+        .description("Comma separated non-working weekdays, 0 = Sunday"),
+    CALENDAR_HOLIDAYS: Joi.string().allow("").default("")
+        .description("Comma separated YYYY-MM-DD holidays"),
+});
+
+const DAY_FORMAT = "YYYY-MM-DD";
+const WALL_TIME_FORMAT = "YYYY-MM-DDTHH:mm:ss.SSS";
+
+/** A half-open range, `end` is the first instant after the period. */
+export interface DateRange {
+    start: Dayjs;
+    end: Dayjs;
+}
+
+/**
+ * Moves `day` on the wall clock of NODE_TIMEZONE. `.add` on a tz instance keeps the original
+ * offset, so crossing a DST change would land an hour off the local boundary.
+ */
+function shift(day: Dayjs, amount: number, unit: ManipulateType | "quarter") {
+    const wallTime = unit === "quarter"
+        ? datetime.utc(day.format(WALL_TIME_FORMAT)).add(amount * 3, "month")
+        : datetime.utc(day.format(WALL_TIME_FORMAT)).add(amount, unit);
+    return datetime.tz(wallTime.format(WALL_TIME_FORMAT), env.NODE_TIMEZONE);
+}
+
+export interface HolidayStore {
+    holidays(): Promise<string[]>;
+}
+
+export class ListHolidayStore implements HolidayStore {
+    private readonly dates: string[];
+
+    constructor(dates: DateInput[] = calendarEnv.CALENDAR_HOLIDAYS.split(",").filter(Boolean)) {
+        this.dates = dates.map(date => parseDate(date).format(DAY_FORMAT));
+    }
+
+    async holidays() {
+        return this.dates;
+    }
+}
+
+export class KnexHolidayStore implements HolidayStore {
+    private readonly database: knex.Knex;
+    private readonly tableName: string;
+
+    constructor(database: knex.Knex, tableName: string = "holidays") {
+        this.database = database;
+        this.tableName = tableName;
+    }
+
+    async createTable() {
+        if (await this.database.schema.hasTable(this.tableName)) {
+            return;
+        }
+        await this.database.schema.createTable(this.tableName, function (table) {
+            table.string("date", 10).primary();
+            table.string("name").nullable();
+        });
+    }
+
+    async holidays() {
+        const rows = await this.database(this.tableName).select("date");
+        return rows.map(row => parseDate(row.date instanceof Date ? row.date : String(row.date)).format(DAY_FORMAT));
+    }
+}
+
+export interface BusinessCalendarOptions {
+    holidays?: HolidayStore;
+    weekendDays?: number[];
+}
+
+export async function createBusinessCalendar(options?: BusinessCalendarOptions) {
+    const store = options?.holidays || new ListHolidayStore();
+    const weekendDays = options?.weekendDays
+        || calendarEnv.CALENDAR_WEEKEND_DAYS.split(",").filter(Boolean).map(Number);
+    let holidays = new Set(await store.holidays());
+
+    async function reload() {
+        holidays = new Set(await store.holidays());
+    }
+
+    function isHoliday(date: DateInput) {
+        return holidays.has(parseDate(date).format(DAY_FORMAT));
+    }
+
+    function isBusinessDay(date: DateInput) {
+        const day = parseDate(date);
+        return !weekendDays.includes(day.day()) && !holidays.has(day.format(DAY_FORMAT));
+    }
+
+    function addBusinessDays(date: DateInput, amount: number) {
+        if (weekendDays.length >= 7) {
+            throw new Error("Business calendar has no working days");
+        }
+        const step = amount < 0 ? -1 : 1;
+        let day = parseDate(date);
+        let remaining = Math.abs(amount);
+        while (remaining > 0) {
+            day = shift(day, step, "day");
+            if (isBusinessDay(day)) {
+                remaining--;
+            }
+        }
+        return day;
+    }
+
+    function nextBusinessDay(date: DateInput) {
+        return addBusinessDays(date, 1);
+    }
+
+    function previousBusinessDay(date: DateInput) {
+        return addBusinessDays(date, -1);
+    }
+
+    /** Counts business days in [from, to), negative when `to` is before `from`. */
+    function businessDaysBetween(from: DateInput, to: DateInput) {
+        let start = parseDate(from).startOf("day");
+        let end = parseDate(to).startOf("day");
+        const sign = end.isBefore(start) ? -1 : 1;
+        if (sign < 0) {
+            [start, end] = [end, start];
+        }
+        let count = 0;
+        for (let day = start; day.isBefore(end); day = shift(day, 1, "day")) {
+            if (isBusinessDay(day)) {
+                count++;
+            }
+        }
+        return count * sign;
+    }
+
+    return {
+        reload,
+        isHoliday,
+        isBusinessDay,
+        addBusinessDays,
+        nextBusinessDay,
+        previousBusinessDay,
+        businessDaysBetween,
+    };
+}
+
+export type BusinessCalendar = Awaited<ReturnType<typeof createBusinessCalendar>>;
+
+/** Fiscal years are named after the calendar year they end in. */
+export function fiscalYear(date: DateInput = datetime(), startMonth: number = calendarEnv.CALENDAR_FISCAL_YEAR_START_MONTH) {
+    const day = parseDate(date);
+    return startMonth === 1 || day.month() + 1 < startMonth ? day.year() : day.year() + 1;
+}
+
+export function fiscalYearRange(year: number, startMonth: number = calendarEnv.CALENDAR_FISCAL_YEAR_START_MONTH): DateRange {
+    const startYear = startMonth === 1 ? year : year - 1;
+    const start = datetime.tz(`${startYear}-${String(startMonth).padStart(2, "0")}-01`, env.NODE_TIMEZONE);
+    return { start, end: shift(start, 1, "year") };
+}
+
+export function fiscalQuarter(date: DateInput = datetime(), startMonth: number = calendarEnv.CALENDAR_FISCAL_YEAR_START_MONTH) {
+    const day = parseDate(date);
+    const year = fiscalYear(day, startMonth);
+    const months = day.diff(fiscalYearRange(year, startMonth).start, "month");
+    return { year, quarter: Math.floor(months / 3) + 1 };
+}
+
+export function fiscalQuarterRange(
+    year: number,
+    quarter: number,
+    startMonth: number = calendarEnv.CALENDAR_FISCAL_YEAR_START_MONTH,
+): DateRange {
+    const start = shift(fiscalYearRange(year, startMonth).start, (quarter - 1) * 3, "month");
+    return { start, end: shift(start, 3, "month") };
+}
+
+export type Period =
+    | "today" | "yesterday"
+    | "thisWeek" | "lastWeek"
+    | "thisMonth" | "lastMonth"
+    | "thisQuarter" | "lastQuarter"
+    | "thisYear" | "lastYear"
+    | "thisFiscalQuarter" | "lastFiscalQuarter"
+    | "thisFiscalYear" | "lastFiscalYear";
+
+function startOfWeek(day: Dayjs) {
+    const offset = (day.day() - calendarEnv.CALENDAR_WEEK_START + 7) % 7;
+    return shift(day.startOf("day"), -offset, "day");
+}
+
+function unitRange(day: Dayjs, unit: "day" | "month" | "quarter" | "year"): DateRange {
+    const start = day.startOf(unit);
+    return { start, end: shift(start, 1, unit) };
+}
+
+/** Resolves a named period around `reference` in NODE_TIMEZONE. */
+export function periodRange(period: Period, reference: DateInput = datetime()): DateRange {
+    const day = parseDate(reference);
+    switch (period) {
+        case "today":
+            return unitRange(day, "day");
+        case "yesterday":
+            return unitRange(shift(day, -1, "day"), "day");
+        case "thisWeek": {
+            const start = startOfWeek(day);
+            return { start, end: shift(start, 1, "week") };
+        }
+        case "lastWeek": {
+            const start = shift(startOfWeek(day), -1, "week");
+            return { start, end: shift(start, 1, "week") };
+        }
+        case "thisMonth":
+            return unitRange(day, "month");
+        case "lastMonth":
+            return unitRange(shift(day, -1, "month"), "month");
+        case "thisQuarter":
+            return unitRange(day, "quarter");
+        case "lastQuarter":
+            return unitRange(shift(day, -1, "quarter"), "quarter");
+        case "thisYear":
+            return unitRange(day, "year");
+        case "lastYear":
+            return unitRange(shift(day, -1, "year"), "year");
+        case "thisFiscalQuarter": {
+            const { year, quarter } = fiscalQuarter(day);
+            return fiscalQuarterRange(year, quarter);
+        }
+        case "lastFiscalQuarter": {
+            const { year, quarter } = fiscalQuarter(day);
+            return quarter === 1 ? fiscalQuarterRange(year - 1, 4) : fiscalQuarterRange(year, quarter - 1);
+        }
+        case "thisFiscalYear":
+            return fiscalYearRange(fiscalYear(day));
+        case "lastFiscalYear":
+            return fiscalYearRange(fiscalYear(day) - 1);
+    }
+}
@@ -0,0 +1,27 @@
+import {AsyncLocalStorage} from "async_hooks";
+import {v4 as uuid} from "uuid";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+export interface RequestContext {
+    requestId: string;
+    userId?: string;
+    route?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+export function currentContext() {
+    return contextStorage.getStore();
+}
+
+export function runWithContext<T>(context: Partial<RequestContext>, callback: () => T) {
+    return contextStorage.run({ ...context, requestId: context.requestId || uuid() }, callback);
+}
+
+export function updateContext(context: Partial<Omit<RequestContext, "requestId">>) {
+    const store = contextStorage.getStore();
+    if (store) {
+        Object.assign(store, context);
+    }
+}
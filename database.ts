@@ -1,34 +1,143 @@
 import knex from "knex";
+import {AsyncLocalStorage} from "async_hooks";
 import env from "./env";
 import logger from "./logger";
+import {registerResource} from "./lifecycle";
 
-const database = knex({
-    client: "mysql2",
-    connection: {
-        host: env.DB_HOST,
+function connectionConfig(host?: string, port?: number): knex.Knex.StaticConnectionConfig {
+    if (env.DB_CLIENT === "better-sqlite3") {
+        return { filename: env.DB_DATABASE };
+    }
+
+    return {
+        host,
+        port,
         user: env.DB_USER,
         password: env.DB_PASSWORD,
         database: env.DB_DATABASE,
-        charset: "utf8",
-    },
-    pool: {
-        max: 20,
-        min: 5,
-        idleTimeoutMillis: 10000,
-        acquireTimeoutMillis: 30000,
-    },
-    debug: env.NODE_ENV === "development",
-    log: {
-        debug: logger.debug,
-        error: logger.error,
+        ssl: env.DB_SSL ? { rejectUnauthorized: env.DB_SSL_REJECT_UNAUTHORIZED } : undefined,
+        ...(env.DB_CLIENT === "mysql2" ? { charset: "utf8" } : {}),
+    } as knex.Knex.StaticConnectionConfig;
+}
+
+function createDatabase(host?: string, port?: number) {
+    const isSqlite = env.DB_CLIENT === "better-sqlite3";
+
+    return knex({
+        client: env.DB_CLIENT,
+        connection: connectionConfig(host, port),
+        useNullAsDefault: isSqlite,
+        pool: {
+            max: isSqlite ? 1 : env.DB_POOL_MAX,
+            min: isSqlite ? 1 : env.DB_POOL_MIN,
+            idleTimeoutMillis: 10000,
+            acquireTimeoutMillis: 30000,
+        },
+        debug: env.NODE_ENV === "development",
+        log: {
+            debug: logger.debug,
+            error: logger.error,
+        },
+    });
+}
+
+const database = createDatabase(env.DB_HOST, env.DB_PORT);
+
+const replicas = (env.DB_READ_REPLICAS || "")
+    .split(",")
+    .map(replica => replica.trim())
+    .filter(replica => replica.length > 0)
+    .map(function (replica) {
+        const [host, port] = replica.split(":");
+        return createDatabase(host, port ? Number(port) : env.DB_PORT);
+    });
+
+let replicaIndex = 0;
+
+export function readDatabase(): knex.Knex {
+    const transaction = transactionStorage.getStore();
+    if (transaction) {
+        return transaction;
+    }
+    if (replicas.length === 0) {
+        return database;
+    }
+    replicaIndex = (replicaIndex + 1) % replicas.length;
+    return replicas[replicaIndex];
+}
+
+export async function destroyDatabases() {
+    await Promise.all([database, ...replicas].map(instance => instance.destroy()));
+}
+
+registerResource({
+    name: "database",
+    phase: "connections",
+    close: destroyDatabases,
+    check: async function () {
+        await Promise.all([database, ...replicas].map(instance => instance.raw("select 1")));
     },
 });
 
-type TransactionHandler = (transaction: knex.Knex.Transaction) => Promise<void>;
+type TransactionHandler<T> = (transaction: knex.Knex.Transaction) => Promise<T>;
+
+export interface TransactionRetryPolicy {
+    maxAttempts: number;
+    backoff?: (attempt: number) => number;
+    isRetryable?: (error: any) => boolean;
+}
+
+const retryableErrorCodes = ["ER_LOCK_DEADLOCK", "ER_LOCK_WAIT_TIMEOUT", "40001", "40P01"];
+
+const defaultRetryPolicy: TransactionRetryPolicy = {
+    maxAttempts: 3,
+    backoff: attempt => attempt * 50,
+    isRetryable: error => retryableErrorCodes.includes(error?.code),
+};
+
+const transactionStorage = new AsyncLocalStorage<knex.Knex.Transaction>();
+
+export function currentTransaction() {
+    return transactionStorage.getStore();
+}
+
+export function currentDatabase(): knex.Knex {
+    return transactionStorage.getStore() || database;
+}
+
+async function runTransaction<T>(transaction: knex.Knex.Transaction, handler: TransactionHandler<T>) {
+    try {
+        const result = await transactionStorage.run(transaction, () => handler(transaction));
+        if (!transaction.isCompleted()) {
+            await transaction.commit();
+        }
+        return result;
+    } catch (error) {
+        if (!transaction.isCompleted()) {
+            await transaction.rollback();
+        }
+        throw error;
+    }
+}
+
+export async function safeTransaction<T>(handler: TransactionHandler<T>, retryPolicy?: Partial<TransactionRetryPolicy>): Promise<T> {
+    const parent = transactionStorage.getStore();
+    if (parent) {
+        return runTransaction(await parent.transaction(), handler);
+    }
+
+    const policy = { ...defaultRetryPolicy, ...retryPolicy };
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await runTransaction(await database.transaction(), handler);
+        } catch (error) {
+            if (attempt >= policy.maxAttempts || !policy.isRetryable?.(error)) {
+                throw error;
+            }
+            logger.warn(`Transaction attempt ${attempt} failed with ${error.code}, retrying`);
+            await new Promise(resolve => setTimeout(resolve, policy.backoff?.(attempt) ?? 0));
+        }
+    }
+}
 
-export async function safeTransaction(handler: TransactionHandler) {
-    const transaction = await database.transaction();
-    await handler(transaction)
-        .then(() => transaction.commit())
-        .catch(error => transaction.rollback().then(() => error));
-}
\ No newline at end of file
+export default database;
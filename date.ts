@@ -1,14 +1,138 @@
-import dayjs from "dayjs";
+import dayjs, {Dayjs} from "dayjs";
 import timezone from "dayjs/plugin/timezone";
 import utc from "dayjs/plugin/utc";
 import quarterOfYear from "dayjs/plugin/quarterOfYear";
 import weekOfYear from "dayjs/plugin/weekOfYear";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import Joi from "joi";
 import env from "./env";
 
 dayjs.extend(timezone);
 dayjs.extend(utc);
 dayjs.extend(quarterOfYear);
 dayjs.extend(weekOfYear);
+dayjs.extend(customParseFormat);
 dayjs.tz.setDefault(env.NODE_TIMEZONE);
 
-export default dayjs;
\ No newline at end of file
+export type DateInput = string | number | Date | Dayjs;
+
+const explicitOffset = /(Z|[+-]\d{2}:?\d{2})$/i;
+const isoFormats = [
+    "YYYY-MM-DD",
+    "YYYY-MM-DDTHH:mm",
+    "YYYY-MM-DDTHH:mm:ss",
+    "YYYY-MM-DDTHH:mm:ss.SSS",
+    "YYYY-MM-DD HH:mm",
+    "YYYY-MM-DD HH:mm:ss",
+    "YYYY-MM-DD HH:mm:ss.SSS",
+];
+
+function isDateInput(value: unknown): value is DateInput {
+    return typeof value === "string" || typeof value === "number" || value instanceof Date || dayjs.isDayjs(value);
+}
+
+/**
+ * Parses a date in NODE_TIMEZONE. Strings without an explicit offset are read as wall time
+ * in that timezone, so "2024-03-01" is midnight local time rather than midnight UTC.
+ * Without a format only strict ISO 8601 is accepted, overflowing values like "2024-02-30" are invalid.
+ */
+export function parseDate(value: DateInput, format?: string | string[]): Dayjs {
+    if (typeof value !== "string") {
+        return dayjs(value).tz();
+    }
+    try {
+        if (format) {
+            const formats = typeof format === "string" ? [format] : format;
+            const matched = formats.find(candidate => dayjs(value, candidate, true).isValid());
+            return matched ? dayjs.tz(value, matched, env.NODE_TIMEZONE) : dayjs(NaN);
+        }
+        const wallTime = value.replace(explicitOffset, "");
+        const matched = isoFormats.find(candidate => dayjs.utc(wallTime, candidate, true).isValid());
+        if (!matched) {
+            return dayjs(NaN);
+        }
+        return wallTime === value ? dayjs.tz(value, matched, env.NODE_TIMEZONE) : dayjs(value).tz();
+    } catch (error) {
+        return dayjs(NaN);
+    }
+}
+
+function resolveLimit(limit: DateInput) {
+    return limit === "now" ? dayjs().tz() : parseDate(limit);
+}
+
+export interface DayjsSchema extends Joi.AnySchema<Dayjs> {
+    format(format: string | string[]): this;
+    min(limit: DateInput | Joi.Reference): this;
+    max(limit: DateInput | Joi.Reference): this;
+}
+
+export interface DateJoiRoot extends Joi.Root {
+    dayjs(): DayjsSchema;
+}
+
+export const DateJoi: DateJoiRoot = Joi.extend(function (joi: Joi.Root): Joi.Extension {
+    const limitArgument = {
+        name: "limit",
+        ref: true,
+        assert: (value: unknown) => isDateInput(value) && resolveLimit(value).isValid(),
+        message: "must be a date or \"now\"",
+    };
+
+    return {
+        type: "dayjs",
+        base: joi.any(),
+        messages: {
+            "dayjs.base": "{{#label}} must be a valid date",
+            "dayjs.format": "{{#label}} must be in {{#format}} format",
+            "dayjs.min": "{{#label}} must be on or after {{#limit}}",
+            "dayjs.max": "{{#label}} must be on or before {{#limit}}",
+        },
+        coerce(value, helpers) {
+            if (!isDateInput(value)) {
+                return { value };
+            }
+            const format = helpers.schema.$_getFlag("format");
+            const parsed = parseDate(value, format);
+            if (!parsed.isValid()) {
+                return { value, errors: [helpers.error(format ? "dayjs.format" : "dayjs.base", { format })] };
+            }
+            return { value: parsed };
+        },
+        validate(value, helpers) {
+            if (!dayjs.isDayjs(value) || !value.isValid()) {
+                return { value, errors: [helpers.error("dayjs.base")] };
+            }
+            return { value };
+        },
+        rules: {
+            format: {
+                method(format: string | string[]) {
+                    return this.$_setFlag("format", format);
+                },
+            },
+            min: {
+                method(limit: DateInput | Joi.Reference) {
+                    return this.$_addRule({ name: "min", args: { limit } });
+                },
+                args: [limitArgument],
+                validate(value: Dayjs, helpers, { limit }) {
+                    const resolved = resolveLimit(limit);
+                    return value.isBefore(resolved) ? helpers.error("dayjs.min", { limit: resolved.format() }) : value;
+                },
+            },
+            max: {
+                method(limit: DateInput | Joi.Reference) {
+                    return this.$_addRule({ name: "max", args: { limit } });
+                },
+                args: [limitArgument],
+                validate(value: Dayjs, helpers, { limit }) {
+                    const resolved = resolveLimit(limit);
+                    return value.isAfter(resolved) ? helpers.error("dayjs.max", { limit: resolved.format() }) : value;
+                },
+            },
+        },
+    };
+});
+
+export default dayjs;
@@ -1,22 +1,56 @@
+import {createCipheriv, createDecipheriv, createHmac, randomBytes} from "crypto";
 import datetime from "./date";
-import env from "./env";
+import env, {registerEnv} from "./env";
 import {JwtPayload, sign, verify} from "jsonwebtoken";
 import {compareSync, genSaltSync, hashSync} from "bcrypt";
+import Joi from "joi";
+import knex from "knex";
+
+const encryptionEnv = registerEnv("encryption", {
+    ENCRYPTION_KEYS: Joi.string().required().pattern(/^\d+:[\w+/=-]+(,\d+:[\w+/=-]+)*$/).meta({ secret: true })
+        .description("Comma separated version:base64 AES-256 keys"),
+    ENCRYPTION_KEY_VERSION: Joi.number().integer().description("Key version for new ciphertexts, defaults to the highest"),
+    ENCRYPTION_INDEX_KEY: Joi.string().required().meta({ secret: true }).description("HMAC key for blind indexes"),
+});
 
 export class JwtError extends Error {}
 
-export function signToken(userId: string, roles: string, permissions: string, refreshToken?: string) {
+export class EncryptionError extends Error {}
+
+export function encodeClaims(claims: string | string[]) {
+    return Array.isArray(claims) ? claims.join(",") : claims;
+}
+
+export type TokenType = "access" | "refresh";
+
+/** Refresh tokens share the secret with access tokens, so every check has to look at `typ`. */
+export function isTokenType(payload: JwtPayload, type: TokenType) {
+    return payload.typ === type;
+}
+
+export function decodeClaims(claims?: string) {
+    return (claims || "")
+        .split(",")
+        .map(claim => claim.trim())
+        .filter(claim => claim.length > 0);
+}
+
+export function signToken(userId: string, roles: string | string[], permissions: string | string[], refreshToken?: string) {
     const now = Math.floor(datetime().tz().toDate().getTime() / 1000);
     const accessTokenPayload = {
         sub: userId,
         exp: Math.floor(datetime().tz().add(env.JWT_REFRESH_TIME, "millisecond").toDate().getTime() / 1000),
         iat: now,
-        rle: roles,
-        prm: permissions,
+        rle: encodeClaims(roles),
+        prm: encodeClaims(permissions),
+        typ: "access",
     };
 
     if (refreshToken) {
         const refreshTokenPayload = verify(refreshToken, env.JWT_SECRET) as JwtPayload;
+        if (!isTokenType(refreshTokenPayload, "refresh")) {
+            throw new JwtError("Wrong refresh token");
+        }
         if (refreshTokenPayload.sub !== userId) {
             throw new JwtError("Not the same user");
         }
@@ -37,6 +71,7 @@ export function signToken(userId: string, roles: string, permissions: string, re
         sub: userId,
         exp: Math.floor(datetime().tz().add(env.JWT_EXPIRES, "millisecond").toDate().getTime() / 1000),
         iat: now,
+        typ: "refresh",
     };
 
     return {
@@ -52,4 +87,130 @@ export const PasswordEncryptor = {
     verify(password: string, encryptedPassword: string) {
         return compareSync(password, encryptedPassword);
     },
-};
\ No newline at end of file
+};
+
+let encryptionKeys: { current: number; keys: Map<number, Buffer> } | undefined;
+
+function loadEncryptionKeys() {
+    if (!encryptionKeys) {
+        const keys = new Map(encryptionEnv.ENCRYPTION_KEYS.split(",").map(function (entry) {
+            const [version, encoded] = entry.split(":");
+            const key = Buffer.from(encoded, "base64");
+            if (key.length !== 32) {
+                throw new EncryptionError(`Encryption key v${version} must be 32 bytes`);
+            }
+            return [Number(version), key] as const;
+        }));
+        const current = encryptionEnv.ENCRYPTION_KEY_VERSION ?? Math.max(...keys.keys());
+        if (!keys.has(current)) {
+            throw new EncryptionError(`Encryption key v${current} is not configured`);
+        }
+        encryptionKeys = { current, keys };
+    }
+    return encryptionKeys;
+}
+
+function ciphertextVersion(ciphertext: string) {
+    const match = /^v(\d+):/.exec(ciphertext);
+    if (!match) {
+        throw new EncryptionError("Malformed ciphertext");
+    }
+    return Number(match[1]);
+}
+
+/**
+ * AES-256-GCM for reversible column values. Ciphertexts look like `v<version>:<iv>:<tag>:<data>`
+ * so old rows keep decrypting after a new key version is added. `context` is bound as associated
+ * data, pass e.g. "users.phone" to stop a value being copied into another column.
+ */
+export const FieldEncryptor = {
+    encrypt(plaintext: string, context: string = "") {
+        const { current, keys } = loadEncryptionKeys();
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", keys.get(current)!, iv);
+        cipher.setAAD(Buffer.from(context));
+        const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+        return [`v${current}`, iv, cipher.getAuthTag(), data]
+            .map(part => typeof part === "string" ? part : part.toString("base64url"))
+            .join(":");
+    },
+    decrypt(ciphertext: string, context: string = "") {
+        const version = ciphertextVersion(ciphertext);
+        const key = loadEncryptionKeys().keys.get(version);
+        if (!key) {
+            throw new EncryptionError(`Encryption key v${version} is not configured`);
+        }
+        const parts = ciphertext.split(":");
+        if (parts.length !== 4) {
+            throw new EncryptionError("Malformed ciphertext");
+        }
+        const [, iv, tag, data] = parts.map(part => Buffer.from(part, "base64url"));
+        // GCM would also verify a truncated tag, which makes forging a ciphertext far easier.
+        if (iv.length !== 12 || tag.length !== 16) {
+            throw new EncryptionError("Malformed ciphertext");
+        }
+        try {
+            const decipher = createDecipheriv("aes-256-gcm", key, iv, { authTagLength: 16 });
+            decipher.setAAD(Buffer.from(context));
+            decipher.setAuthTag(tag);
+            return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+        } catch (error) {
+            throw new EncryptionError("Ciphertext cannot be decrypted", { cause: error });
+        }
+    },
+    isCurrent(ciphertext: string) {
+        return ciphertextVersion(ciphertext) === loadEncryptionKeys().current;
+    },
+};
+
+/** Deterministic HMAC of a normalized value, store it beside the ciphertext to query by equality. */
+export function blindIndex(value: string, context: string = "", normalize: (value: string) => string = value => value.trim()) {
+    return createHmac("sha256", encryptionEnv.ENCRYPTION_INDEX_KEY)
+        .update(`${context}:${normalize(value)}`)
+        .digest("base64url");
+}
+
+export interface RotationOptions {
+    table: string;
+    columns: string[];
+    primaryKey?: string;
+    batchSize?: number;
+    context?: (column: string) => string;
+}
+
+/** Re-encrypts every column value not yet on the current key version, one transaction per batch. */
+export async function rotateEncryptedColumns(database: knex.Knex, options: RotationOptions) {
+    const primaryKey = options.primaryKey || "id";
+    const batchSize = options.batchSize || 500;
+    const prefix = `v${loadEncryptionKeys().current}:`;
+    let lastKey: string | number | undefined;
+    let rotated = 0;
+
+    while (true) {
+        const rows = await database(options.table)
+            .select(primaryKey, ...options.columns)
+            .where(function () {
+                options.columns.forEach(column => this.orWhere(column, "not like", `${prefix}%`));
+            })
+            .modify(query => lastKey === undefined ? query : query.where(primaryKey, ">", lastKey))
+            .orderBy(primaryKey)
+            .limit(batchSize);
+        if (rows.length === 0) {
+            return rotated;
+        }
+
+        await database.transaction(async function (transaction) {
+            for (const row of rows) {
+                const changes = Object.fromEntries(options.columns
+                    .filter(column => typeof row[column] === "string" && !row[column].startsWith(prefix))
+                    .map(function (column) {
+                        const context = options.context?.(column) ?? "";
+                        return [column, FieldEncryptor.encrypt(FieldEncryptor.decrypt(row[column], context), context)];
+                    }));
+                await transaction(options.table).where(primaryKey, row[primaryKey]).update(changes);
+            }
+        });
+        rotated += rows.length;
+        lastKey = rows[rows.length - 1][primaryKey];
+    }
+}
@@ -1,5 +1,7 @@
 import "dotenv/config";
 import Joi from "joi";
+import {inspect} from "util";
+import {resolve} from "path";
 
 
 interface SystemFields {
@@ -10,19 +12,37 @@ interface SystemFields {
 
 interface LoggerFields {
     LOGGER_LEVEL: "debug" | string;
+    LOGGER_FORMAT: "text" | "json";
     LOGGER_WEBHOOK_URL?: string;
+    LOGGER_WEBHOOK_PROVIDER: "feishu" | "slack" | "dingtalk" | "wecom" | "json";
+    LOGGER_WEBHOOK_LEVEL: "error" | "warn" | "info" | string;
+    LOGGER_WEBHOOK_BATCH_WINDOW: number;
+    LOGGER_WEBHOOK_MAX_ENTRIES: number;
 }
 
 interface ServerFields {
     SERVER_PORT: number;
-    SERVER_JWT_FROM: "BearerToken" | "QueryParameter";
+    SERVER_JWT_FROM: "BearerToken" | "QueryParameter" | "Cookie";
+    SERVER_RATE_LIMIT_WINDOW: number;
+    SERVER_RATE_LIMIT_MAX: number;
+    SERVER_RATE_LIMIT_KEY: "ip" | "user" | "apiKey";
 }
 
 interface DBFields {
+    DB_CLIENT: "pg" | "mysql2" | "better-sqlite3";
     DB_HOST: string;
+    DB_PORT?: number;
     DB_USER: string;
     DB_PASSWORD: string;
     DB_DATABASE: string;
+    DB_SSL: boolean;
+    DB_SSL_REJECT_UNAUTHORIZED: boolean;
+    DB_POOL_MIN: number;
+    DB_POOL_MAX: number;
+    DB_READ_REPLICAS?: string;
+    DB_MIGRATIONS_DIRECTORY: string;
+    DB_MIGRATIONS_TABLE: string;
+    DB_SEEDS_DIRECTORY: string;
 }
 
 interface JwtFields {
@@ -35,79 +55,235 @@ interface MQFields {
     MQ_HOST: string;
 }
 
-interface CustomFields {
-
-}
-
 type Fields =
     & SystemFields
     & LoggerFields
     & ServerFields
     & DBFields
     & JwtFields
-    & MQFields
-    & CustomFields;
+    & MQFields;
+
+export type InferEnv<S extends Record<string, Joi.AnySchema>> = {
+    [K in keyof S]: S[K] extends Joi.AnySchema<infer T> ? T : never;
+};
+
+export class EnvError extends Error {}
 
 
 const systemSchema = {
     NODE_ENV: Joi.string().required().allow("development", "production", "test").default("development"),
     NODE_TIMEZONE: Joi.string().required().default("Asia/Hong_Kong"),
+    NODE_SCHEMA_EXCLUDES: Joi.string().description("Comma separated env groups to skip"),
 }
 
 const loggerSchema = {
     LOGGER_LEVEL: Joi.string().required().default("debug"),
-    LOGGER_WEBHOOK_URL: Joi.string(),
+    LOGGER_FORMAT: Joi.string().valid("text", "json").default("text"),
+    LOGGER_WEBHOOK_URL: Joi.string().meta({ secret: true }),
+    LOGGER_WEBHOOK_PROVIDER: Joi.string().valid("feishu", "slack", "dingtalk", "wecom", "json").default("feishu"),
+    LOGGER_WEBHOOK_LEVEL: Joi.string().default("info").description("Lowest level that is sent to the webhook"),
+    LOGGER_WEBHOOK_BATCH_WINDOW: Joi.number().integer().min(0).default(1000 * 10)
+        .description("Milliseconds to collect messages into one webhook digest"),
+    LOGGER_WEBHOOK_MAX_ENTRIES: Joi.number().integer().min(1).default(50)
+        .description("Distinct messages kept per digest, the rest are counted as dropped"),
 }
 
 const serverSchema = {
     SERVER_PORT: Joi.number().integer().default(1234),
-    SERVER_JWT_FROM: Joi.string().required().allow("BearerToken", "QueryParameter").default("BearerToken"),
+    SERVER_JWT_FROM: Joi.string().required().allow("BearerToken", "QueryParameter", "Cookie").default("BearerToken"),
+    SERVER_RATE_LIMIT_WINDOW: Joi.number().integer().min(1).default(1000)
+        .description("Global rate limit window in milliseconds"),
+    SERVER_RATE_LIMIT_MAX: Joi.number().integer().min(1).default(20)
+        .description("Requests allowed per window by the global rate limit"),
+    SERVER_RATE_LIMIT_KEY: Joi.string().valid("ip", "user", "apiKey").default("ip"),
 }
 
+const dbServerRequired = (schema: Joi.AnySchema) =>
+    schema.when("DB_CLIENT", { is: "better-sqlite3", then: Joi.optional(), otherwise: Joi.required() });
+
 const dbSchema = {
-    DB_HOST: Joi.string().required(),
-    DB_USER: Joi.string().required(),
-    DB_PASSWORD: Joi.string().required(),
+    DB_CLIENT: Joi.string().valid("pg", "mysql2", "better-sqlite3").default("pg"),
+    DB_HOST: dbServerRequired(Joi.string()),
+    DB_PORT: Joi.number().integer(),
+    DB_USER: dbServerRequired(Joi.string()),
+    DB_PASSWORD: dbServerRequired(Joi.string().meta({ secret: true })),
     DB_DATABASE: Joi.string().required(),
+    DB_SSL: Joi.boolean().default(false),
+    DB_SSL_REJECT_UNAUTHORIZED: Joi.boolean().default(true),
+    DB_POOL_MIN: Joi.number().integer().min(0).default(5),
+    DB_POOL_MAX: Joi.number().integer().min(1).default(20),
+    DB_READ_REPLICAS: Joi.string().description("Comma separated host[:port] list of read replicas"),
+    DB_MIGRATIONS_DIRECTORY: Joi.string().default("./migrations"),
+    DB_MIGRATIONS_TABLE: Joi.string().default("knex_migrations"),
+    DB_SEEDS_DIRECTORY: Joi.string().default("./seeds"),
 }
 
 const jwtSchema = {
-    JWT_SECRET: Joi.string().required().default("HelloWorld!"),
-    JWT_REFRESH_TIME: Joi.number().integer().required().default(1000 * 60 * 60),
-    JWT_EXPIRES: Joi.number().integer().required().default(1000 * 60 * 60 * 48),
+    JWT_SECRET: Joi.string().required().default("HelloWorld!").meta({ secret: true }),
+    JWT_REFRESH_TIME: Joi.number().integer().required().default(1000 * 60 * 60)
+        .description("Access token lifetime in milliseconds"),
+    JWT_EXPIRES: Joi.number().integer().required().default(1000 * 60 * 60 * 48)
+        .description("Refresh token lifetime in milliseconds"),
 }
 
 const mqSchema = {
-    MQ_HOST: Joi.string().required(),
+    MQ_HOST: Joi.string().required().meta({ secret: true }).description("amqp:// connection url"),
 }
 
-const customSchema = {
+const excludes = (process.env.NODE_SCHEMA_EXCLUDES ?? process.env.NODE_ENV_EXCLUDES ?? "")
+    .split(",")
+    .map(group => group.trim());
 
+const schemas = new Map<string, Record<string, Joi.AnySchema>>();
+const owners = new Map<string, string>();
+const validated = new Map<string, Record<string, unknown>>();
+// Set while loading modules for `example`, their top level env reads must not fail on an empty env.
+let ignoreInvalid = false;
+
+function validateGroup(name: string) {
+    if (excludes.includes(name)) {
+        return {};
+    }
+
+    let values = validated.get(name);
+    if (!values) {
+        const schema = schemas.get(name) || {};
+        const { value, error } = Joi.object(schema).validate(process.env, { allowUnknown: true, abortEarly: false });
+        if (error && !ignoreInvalid) {
+            // Only keys and rule names, Joi messages can echo secret values.
+            const failures = error.details.map(detail => `${detail.path.join(".")} (${detail.type})`);
+            throw new EnvError(`Invalid env group "${name}": ${[...new Set(failures)].join(", ")}`);
+        }
+        values = Object.fromEntries(Object.keys(schema).map(key => [key, value[key]]));
+        validated.set(name, values);
+    }
+    return values;
+}
+
+function isSecret(schema: Joi.AnySchema) {
+    return (schema.describe().metas || []).some((meta: any) => meta?.secret === true);
 }
 
-const NODE_SCHEMA_EXCLUDES = Joi.attempt(process.env.NODE_ENV_EXCLUDES, Joi.string().default(""));
+export function maskedEnv() {
+    const masked: Record<string, unknown> = {};
+    schemas.forEach(function (schema, name) {
+        if (!validated.has(name)) return;
+        const values = validated.get(name) || {};
+        Object.entries(schema).forEach(function ([key, field]) {
+            masked[key] = isSecret(field) && values[key] !== undefined ? "******" : values[key];
+        });
+    });
+    return masked;
+}
 
-const schemas = new Map<string, Record<string, Joi.AnySchema>>();
-schemas.set("system", systemSchema);
-schemas.set("logger", loggerSchema);
-schemas.set("server", serverSchema);
-schemas.set("db", dbSchema);
-schemas.set("jwt", jwtSchema);
-schemas.set("mq", mqSchema);
-schemas.set("custom", customSchema);
+function readEnv(key: string) {
+    const group = owners.get(key);
+    return group ? validateGroup(group)[key] : undefined;
+}
+
+// util.inspect prints a proxy's target, so the masked view has to live on the target itself.
+// Enumerating (Object.keys, spread) validates every visible group, like the eager env used to.
+function lazyEnv<T extends object>(keys?: string[]) {
+    const visible = (key: string | symbol): key is string =>
+        typeof key === "string" && owners.has(key) && (!keys || keys.includes(key));
+    const masked = function () {
+        new Set([...owners.keys()].filter(visible).map(key => owners.get(key)!)).forEach(function (group) {
+            try {
+                validateGroup(group);
+            } catch (error) {
+                // An invalid group is left out of the masked view, logging must not throw.
+            }
+        });
+        const values = maskedEnv();
+        return keys ? Object.fromEntries(keys.filter(key => key in values).map(key => [key, values[key]])) : values;
+    };
 
-NODE_SCHEMA_EXCLUDES.split(",").forEach(s => schemas.delete(s));
+    const target = {};
+    Object.defineProperty(target, inspect.custom, { value: masked, configurable: true });
+
+    return new Proxy(target, {
+        get(_target, key) {
+            if (key === "toJSON" || key === inspect.custom) {
+                return masked;
+            }
+            return visible(key) ? readEnv(key) : undefined;
+        },
+        has(_target, key) {
+            return visible(key);
+        },
+        ownKeys() {
+            return [...owners.keys()].filter(visible);
+        },
+        getOwnPropertyDescriptor(_target, key) {
+            if (!visible(key)) {
+                return undefined;
+            }
+            return { value: readEnv(key), enumerable: true, configurable: true, writable: false };
+        },
+    }) as Readonly<T>;
+}
 
+export function registerEnv<S extends Record<string, Joi.AnySchema>>(name: string, schema: S) {
+    if (schemas.has(name)) {
+        throw new EnvError(`Env group "${name}" is already registered`);
+    }
+    Object.keys(schema).forEach(function (key) {
+        const owner = owners.get(key);
+        if (owner) {
+            throw new EnvError(`Env field ${key} is already registered by group "${owner}"`);
+        }
+    });
 
-const schema = Joi.object<Fields>(
-    schemas
-        .values()
-        .reduce((prev, curr) => ({ ...prev, ...curr }), {})
-);
+    schemas.set(name, schema);
+    Object.keys(schema).forEach(key => owners.set(key, name));
 
-const env = Joi.attempt(process.env, schema, {
-    allowUnknown: true,
-});
+    return lazyEnv<InferEnv<S>>(Object.keys(schema));
+}
+
+export function validateEnv(...names: string[]) {
+    (names.length > 0 ? names : [...schemas.keys()]).forEach(name => validateGroup(name));
+}
+
+export function envExample() {
+    const lines: string[] = [];
+    schemas.forEach(function (schema, name) {
+        lines.push(`# ----- ${name} -----`);
+        Object.entries(schema).forEach(function ([key, field]) {
+            const description = field.describe();
+            const flags = (description.flags || {}) as Record<string, any>;
+            const comments = [
+                flags.description,
+                flags.presence === "required" ? "required" : undefined,
+                isSecret(field) ? "secret" : undefined,
+            ].filter(comment => comment);
+            if (comments.length > 0) {
+                lines.push(`# ${comments.join(", ")}`);
+            }
+            const defaultValue = flags.default !== undefined && !isSecret(field) ? String(flags.default) : "";
+            lines.push(`${key}=${defaultValue}`);
+        });
+        lines.push("");
+    });
+    return lines.join("\n");
+}
+
+registerEnv("system", systemSchema);
+registerEnv("logger", loggerSchema);
+registerEnv("server", serverSchema);
+registerEnv("db", dbSchema);
+registerEnv("jwt", jwtSchema);
+registerEnv("mq", mqSchema);
+
+const env = lazyEnv<Fields>();
 
 export default env;
 
+// Library modules that register their own groups, application modules are passed as arguments:
+// ts-node env.ts example ./src/billing.ts
+const libraryEnvModules = ["./encrypt", "./upload", "./calendar"];
+
+if (require.main === module && process.argv[2] === "example") {
+    ignoreInvalid = true;
+    [...libraryEnvModules, ...process.argv.slice(3).map(path => resolve(path))].forEach(path => require(path));
+    process.stdout.write(envExample());
+}
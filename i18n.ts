@@ -0,0 +1,143 @@
+import {readdirSync, readFileSync} from "fs";
+import {basename, extname, join} from "path";
+import {NextFunction, Request, Response} from "express";
+import Joi from "joi";
+import {HelperOptions} from "handlebars";
+import {WrongParameterException} from "./server-http";
+import {readCookie} from "./session";
+
+declare global {
+    namespace Express {
+        interface Request {
+            locale: string;
+        }
+    }
+}
+
+export interface I18nOptions {
+    localesPath?: string;
+    defaultLocale?: string;
+    queryParameter?: string;
+    cookieName?: string;
+}
+
+type Message = string | Partial<Record<Intl.LDMLPluralRule, string>>;
+type Catalog = Record<string, Message>;
+
+function flatten(messages: Record<string, unknown>, prefix: string = ""): Catalog {
+    return Object.entries(messages).reduce<Catalog>(function (catalog, [key, value]) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        const isPlural = typeof value === "object" && value !== null && "other" in value;
+        if (typeof value === "string" || isPlural) {
+            catalog[path] = value as Message;
+        } else if (typeof value === "object" && value !== null) {
+            Object.assign(catalog, flatten(value as Record<string, unknown>, path));
+        }
+        return catalog;
+    }, {});
+}
+
+function interpolate(message: string, params: Record<string, unknown>) {
+    return message.replace(/\{(\w+)\}/g, (match, name) => params[name] === undefined ? match : String(params[name]));
+}
+
+export function createI18n(options?: I18nOptions) {
+    const localesPath = options?.localesPath || "./locales";
+    const defaultLocale = options?.defaultLocale || "en";
+    const queryParameter = options?.queryParameter || "lang";
+    const cookieName = options?.cookieName || "locale";
+
+    const catalogs = new Map<string, Catalog>();
+    readdirSync(localesPath)
+        .filter(file => extname(file) === ".json")
+        .forEach(function (file) {
+            const content = JSON.parse(readFileSync(join(localesPath, file), "utf-8"));
+            catalogs.set(basename(file, ".json"), flatten(content));
+        });
+    const locales = [...catalogs.keys()];
+
+    function resolveLocale(locale?: string) {
+        if (!locale) {
+            return undefined;
+        }
+        const exact = locales.find(candidate => candidate.toLowerCase() === locale.toLowerCase());
+        if (exact) {
+            return exact;
+        }
+        const language = locale.split("-")[0].toLowerCase();
+        return locales.find(candidate => candidate.split("-")[0].toLowerCase() === language);
+    }
+
+    function fallbacks(locale: string) {
+        const parts = locale.split("-");
+        const chain = parts.map((_part, index) => parts.slice(0, parts.length - index).join("-"));
+        return [...chain, defaultLocale];
+    }
+
+    function translate(locale: string, key: string, params: Record<string, unknown> = {}) {
+        for (const candidate of fallbacks(locale)) {
+            const message = catalogs.get(resolveLocale(candidate) || "")?.[key];
+            if (message === undefined) {
+                continue;
+            }
+            if (typeof message === "string") {
+                return interpolate(message, params);
+            }
+            const count = Number(params.count ?? 0);
+            const rule = count === 0 && message.zero ? "zero" : new Intl.PluralRules(candidate).select(count);
+            return interpolate(message[rule] ?? message.other ?? key, params);
+        }
+        return interpolate(key, params);
+    }
+
+    function detectLocale(request: Request, response: Response, next: NextFunction) {
+        const fromQuery = resolveLocale(request.query[queryParameter]?.toString());
+        if (fromQuery) {
+            response.cookie(cookieName, fromQuery, { httpOnly: true, sameSite: "lax", maxAge: 1000 * 60 * 60 * 24 * 365 });
+        }
+        request.locale = fromQuery
+            || resolveLocale(readCookie(request.headers.cookie, cookieName))
+            || resolveLocale(request.acceptsLanguages(...locales) || undefined)
+            || defaultLocale;
+        response.locals.locale = request.locale;
+        next();
+    }
+
+    function localizeValidationDetail(locale: string, detail: Joi.ValidationErrorItem) {
+        const key = `validation.${detail.type}`;
+        const message = translate(locale, key, { ...detail.context, label: detail.context?.label ?? detail.path.join(".") });
+        return message === key ? detail.message : message;
+    }
+
+    function localizeValidationError(locale: string, error: Joi.ValidationError) {
+        return error.details
+            .map(detail => localizeValidationDetail(locale, detail))
+            .join("; ");
+    }
+
+    function localizeException(locale: string, error: Error) {
+        if (error instanceof WrongParameterException && error.cause instanceof Joi.ValidationError) {
+            return new WrongParameterException(localizeValidationError(locale, error.cause), { cause: error.cause });
+        }
+        return error;
+    }
+
+    const helpers = {
+        t(key: string, options: HelperOptions) {
+            return translate(options.data?.root?.locale || defaultLocale, key, options.hash);
+        },
+    };
+
+    return {
+        locales,
+        defaultLocale,
+        translate,
+        detectLocale,
+        localizeValidationDetail,
+        localizeValidationError,
+        localizeException,
+        helpers,
+    };
+}
+
+export type I18n = ReturnType<typeof createI18n>;
@@ -0,0 +1,77 @@
+import logger from "./logger";
+
+/**
+ * Shutdown closes phase by phase: servers stop taking work, consumers drain, then the
+ * connections they relied on go away. Within a phase the latest registered closes first.
+ */
+export type LifecyclePhase = "server" | "consumers" | "connections";
+
+const phases: LifecyclePhase[] = ["server", "consumers", "connections"];
+
+export interface LifecycleResource {
+    name: string;
+    phase: LifecyclePhase;
+    close: () => Promise<void>;
+    check?: () => Promise<void>;
+}
+
+const resources: LifecycleResource[] = [];
+let shutdownPromise: Promise<void> | undefined;
+
+export function registerResource(resource: LifecycleResource) {
+    resources.push(resource);
+    return resource;
+}
+
+export function isShuttingDown() {
+    return shutdownPromise !== undefined;
+}
+
+export async function checkReadiness() {
+    const results = await Promise.all(resources
+        .filter(resource => resource.check)
+        .map(resource => resource.check!()
+            .then(() => ({ name: resource.name, status: "ok" }))
+            .catch(error => ({ name: resource.name, status: "error", message: error.message as string }))));
+
+    return {
+        ready: !isShuttingDown() && results.every(result => result.status === "ok"),
+        checks: results,
+    };
+}
+
+function withTimeout(promise: Promise<void>, timeout: number, name: string) {
+    return new Promise<void>(function (resolve, reject) {
+        const timer = setTimeout(() => reject(new Error(`Closing ${name} timed out after ${timeout}ms`)), timeout);
+        promise.then(resolve, reject).finally(() => clearTimeout(timer));
+    });
+}
+
+export function shutdown(timeout: number = 30000) {
+    if (shutdownPromise) {
+        return shutdownPromise;
+    }
+
+    shutdownPromise = (async function () {
+        for (const phase of phases) {
+            for (const resource of resources.filter(resource => resource.phase === phase).reverse()) {
+                try {
+                    logger.info(`Closing ${resource.name}`);
+                    await withTimeout(resource.close(), timeout, resource.name);
+                } catch (error) {
+                    logger.error(`Failed to close ${resource.name}: ${error.message}`);
+                }
+            }
+        }
+        logger.info("Shutdown complete");
+    })();
+
+    return shutdownPromise;
+}
+
+export function installSignalHandlers(timeout: number = 30000, signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"]) {
+    signals.forEach(signal => process.once(signal, function () {
+        logger.info(`Received ${signal}, shutting down`);
+        shutdown(timeout).finally(() => process.exit(0));
+    }));
+}
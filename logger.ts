@@ -4,6 +4,7 @@ import stripAnsi from "strip-ansi";
 import axios from "axios";
 import date from "./date";
 import env from "./env";
+import {currentContext} from "./context";
 
 const levels = {
     error: 0,
@@ -23,48 +24,149 @@ const colors = {
 
 winston.addColors(colors);
 
-const format = winston.format.combine(
+const contextFormat = winston.format(function (info) {
+    const context = currentContext();
+    if (context) {
+        info.requestId = context.requestId;
+        info.userId = context.userId;
+        info.route = context.route;
+    }
+    return info;
+});
+
+const textFormat = winston.format.combine(
+    contextFormat(),
     winston.format.timestamp({ format: () => date().tz().format("YYYY-MM-DD HH:mm:ss.SSS") }),
     winston.format.colorize({ all: true }),
     winston.format.align(),
-    winston.format.printf(info => `${info.timestamp} ${info.level}: ${info.message?.toString()}`)
+    winston.format.printf(info =>
+        `${info.timestamp} ${info.level}: ${info.requestId ? `[${info.requestId}] ` : ""}${info.message?.toString()}`)
 );
 
-const webhookTextTemplate = (info: any) =>
-    stripAnsi(`${info.timestamp} ${info.level}: ${info.message?.toString()}`);
+const jsonFormat = winston.format.combine(
+    contextFormat(),
+    winston.format.timestamp({ format: () => date().tz().format("YYYY-MM-DDTHH:mm:ss.SSSZ") }),
+    winston.format.json()
+);
+
+const format = env.LOGGER_FORMAT === "json" ? jsonFormat : textFormat;
+
+export type WebhookProvider = "feishu" | "slack" | "dingtalk" | "wecom" | "json";
+
+interface WebhookEntry {
+    level: string;
+    message: string;
+    count: number;
+    firstAt: string;
+    lastAt: string;
+}
+
+interface WebhookOptions {
+    provider: WebhookProvider;
+    batchWindow: number;
+    maxEntries: number;
+}
+
+const webhookTextTemplate = (entry: WebhookEntry) =>
+    entry.count > 1
+        ? `[x${entry.count}] ${entry.firstAt} ~ ${entry.lastAt} ${entry.level}: ${entry.message}`
+        : `${entry.firstAt} ${entry.level}: ${entry.message}`;
+
+function webhookDigest(entries: WebhookEntry[], dropped: number) {
+    const lines = entries.map(webhookTextTemplate);
+    if (dropped > 0) {
+        lines.push(`... and ${dropped} more distinct messages`);
+    }
+    return lines.join("\n");
+}
+
+const webhookPayloads: Record<WebhookProvider, (entries: WebhookEntry[], dropped: number) => object> = {
+    feishu: (entries, dropped) => ({
+        "msg_type": "text",
+        "content": { "text": webhookDigest(entries, dropped) },
+    }),
+    slack: (entries, dropped) => ({
+        "text": webhookDigest(entries, dropped),
+    }),
+    dingtalk: (entries, dropped) => ({
+        "msgtype": "text",
+        "text": { "content": webhookDigest(entries, dropped) },
+    }),
+    wecom: (entries, dropped) => ({
+        "msgtype": "text",
+        "text": { "content": webhookDigest(entries, dropped) },
+    }),
+    json: (entries, dropped) => ({ entries, dropped }),
+};
 
 class WebhookTransport extends TransportStream {
     private readonly webhookUrl: string;
+    private readonly webhookOptions: WebhookOptions;
+    private readonly entries = new Map<string, WebhookEntry>();
+    private dropped = 0;
+    private timer?: NodeJS.Timeout;
+    private sending: Promise<void> = Promise.resolve();
 
-    constructor(webhookUrl: string, options?: TransportStream.TransportStreamOptions) {
+    constructor(webhookUrl: string, webhookOptions: WebhookOptions, options?: TransportStream.TransportStreamOptions) {
         super(options);
         this.webhookUrl = webhookUrl;
+        this.webhookOptions = webhookOptions;
     }
 
     log(info: any, next: () => void) {
+        const level = stripAnsi(String(info.level));
+        const message = stripAnsi(String(info.message?.toString())).trim();
+        const key = `${level}:${message}`;
+        const timestamp = String(info.timestamp);
+
+        const entry = this.entries.get(key);
+        if (entry) {
+            entry.count++;
+            entry.lastAt = timestamp;
+        } else if (this.entries.size < this.webhookOptions.maxEntries) {
+            this.entries.set(key, { level, message, count: 1, firstAt: timestamp, lastAt: timestamp });
+        } else {
+            this.dropped++;
+        }
+
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.webhookOptions.batchWindow);
+            this.timer.unref();
+        }
+
+        setImmediate(() => this.emit("logged", info));
+        next();
+    }
+
+    flush() {
         const that = this;
-        const data = {
-            "msg_type": "text",
-            "content": {
-                "text": webhookTextTemplate(info),
-            }
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        if (this.entries.size === 0) {
+            return this.sending;
         }
 
-        axios({
-            url: this.webhookUrl,
-            method: "POST",
-            data,
-        }).then(function (){
-            setImmediate(() => {
-                that.emit("logged", info);
-            });
-        }).catch(function (error) {
-            setImmediate(() => {
-                that.emit("error", error);
+        const data = webhookPayloads[this.webhookOptions.provider]([...this.entries.values()], this.dropped);
+        this.entries.clear();
+        this.dropped = 0;
+
+        this.sending = this.sending
+            .then(() => axios({
+                url: this.webhookUrl,
+                method: "POST",
+                data,
+            }))
+            .then(() => undefined)
+            .catch(function (error) {
+                setImmediate(() => {
+                    that.emit("error", error);
+                });
             });
-        }).finally(function () {
-            next();
-        });
+        return this.sending;
+    }
+
+    close() {
+        this.flush();
     }
 }
 
@@ -73,7 +175,11 @@ const consoleTransport = new winston.transports.Console();
 transports.push(consoleTransport);
 
 if (env.LOGGER_WEBHOOK_URL) {
-    const webhookTransport = new WebhookTransport(env.LOGGER_WEBHOOK_URL, { level: "info" });
+    const webhookTransport = new WebhookTransport(env.LOGGER_WEBHOOK_URL, {
+        provider: env.LOGGER_WEBHOOK_PROVIDER,
+        batchWindow: env.LOGGER_WEBHOOK_BATCH_WINDOW,
+        maxEntries: env.LOGGER_WEBHOOK_MAX_ENTRIES,
+    }, { level: env.LOGGER_WEBHOOK_LEVEL });
     transports.push(webhookTransport);
 }
 
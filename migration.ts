@@ -0,0 +1,120 @@
+import database, {destroyDatabases} from "./database";
+import env from "./env";
+import logger from "./logger";
+
+export class MigrationRefusedError extends Error {}
+
+export interface DestructiveOptions {
+    force?: boolean;
+}
+
+const migratorConfig = {
+    directory: env.DB_MIGRATIONS_DIRECTORY,
+    tableName: env.DB_MIGRATIONS_TABLE,
+    extension: "ts",
+};
+
+const seederConfig = {
+    directory: env.DB_SEEDS_DIRECTORY,
+    extension: "ts",
+};
+
+function assertNotProduction(operation: string, options?: DestructiveOptions) {
+    if (env.NODE_ENV === "production" && !options?.force) {
+        throw new MigrationRefusedError(`Refuse to ${operation} in production without force`);
+    }
+}
+
+export async function migrateLatest() {
+    const [batchNo, migrations]: [number, string[]] = await database.migrate.latest(migratorConfig);
+    if (migrations.length === 0) {
+        logger.info("Migrations already up to date");
+    } else {
+        migrations.forEach(migration => logger.info(`Migrated ${migration} in batch ${batchNo}`));
+    }
+    return migrations;
+}
+
+export async function migrateRollback(all: boolean = false, options?: DestructiveOptions) {
+    assertNotProduction("rollback migrations", options);
+    const [batchNo, migrations]: [number, string[]] = await database.migrate.rollback(migratorConfig, all);
+    if (migrations.length === 0) {
+        logger.info("No migrations to rollback");
+    } else {
+        migrations.forEach(migration => logger.info(`Rolled back ${migration} from batch ${batchNo}`));
+    }
+    return migrations;
+}
+
+export async function migrateStatus() {
+    const [completed, pending]: [{ name: string }[], { file: string }[]] = await database.migrate.list(migratorConfig);
+    completed.forEach(migration => logger.info(`Completed: ${migration.name}`));
+    pending.forEach(migration => logger.info(`Pending: ${migration.file}`));
+    return {
+        completed: completed.map(migration => migration.name),
+        pending: pending.map(migration => migration.file),
+    };
+}
+
+export async function makeMigration(name: string) {
+    const path = await database.migrate.make(name, migratorConfig);
+    logger.info(`Created migration ${path}`);
+    return path;
+}
+
+export async function runSeeds(options?: DestructiveOptions & { specific?: string }) {
+    assertNotProduction("run seeds", options);
+    const [seeds] = await database.seed.run({ ...seederConfig, specific: options?.specific });
+    seeds.forEach(seed => logger.info(`Seeded ${seed}`));
+    return seeds;
+}
+
+export async function makeSeed(name: string) {
+    const path = await database.seed.make(name, seederConfig);
+    logger.info(`Created seed ${path}`);
+    return path;
+}
+
+const usage = [
+    "Usage:",
+    "  migrate latest",
+    "  migrate rollback [--all] [--force]",
+    "  migrate status",
+    "  migrate make <name>",
+    "  seed run [<file>] [--force]",
+    "  seed make <name>",
+].join("\n");
+
+export async function runMigrationCli(argv: string[]) {
+    const flags = argv.filter(arg => arg.startsWith("--"));
+    const [command, action, name] = argv.filter(arg => !arg.startsWith("--"));
+    const force = flags.includes("--force");
+
+    switch (`${command} ${action}`) {
+        case "migrate latest":
+            return migrateLatest();
+        case "migrate rollback":
+            return migrateRollback(flags.includes("--all"), { force });
+        case "migrate status":
+            return migrateStatus();
+        case "migrate make":
+            if (!name) break;
+            return makeMigration(name);
+        case "seed run":
+            return runSeeds({ force, specific: name });
+        case "seed make":
+            if (!name) break;
+            return makeSeed(name);
+    }
+
+    logger.info(usage);
+}
+
+if (require.main === module) {
+    runMigrationCli(process.argv.slice(2))
+        .then(() => destroyDatabases())
+        .catch(function (error) {
+            logger.error(error.message);
+            return destroyDatabases().then(() => process.exit(1));
+        });
+}
@@ -0,0 +1,81 @@
+import Joi from "joi";
+import {assertData, connect, RetryPolicy} from "./mq";
+
+type MqClient = Awaited<ReturnType<typeof connect>>;
+
+export interface MessageContract<T extends object> {
+    name: string;
+    exchange: string;
+    routingKey: string;
+    schema: Record<string, Joi.AnySchema>;
+    description?: string;
+    // Only carries the message type, never set at runtime
+    readonly __type?: T;
+}
+
+export type MessageOf<C> = C extends MessageContract<infer T> ? T : never;
+
+export interface MessageCatalogueEntry {
+    name: string;
+    exchange: string;
+    routingKey: string;
+    queue?: string;
+    description?: string;
+    schema: Joi.Description;
+}
+
+const produces = new Map<string, MessageCatalogueEntry>();
+const consumes = new Map<string, MessageCatalogueEntry>();
+
+function catalogueEntry(contract: MessageContract<object>, queue?: string): MessageCatalogueEntry {
+    return {
+        name: contract.name,
+        exchange: contract.exchange,
+        routingKey: contract.routingKey,
+        queue,
+        description: contract.description,
+        schema: Joi.object(contract.schema).describe(),
+    };
+}
+
+export function defineMessage<T extends object>(contract: Omit<MessageContract<T>, "__type">): MessageContract<T> {
+    return contract;
+}
+
+export async function assertContractQueue(
+    init: { assertQueue(exchange: string, routingKey: string, queue: string): Promise<void> },
+    contract: MessageContract<object>,
+    queue: string,
+) {
+    await init.assertQueue(contract.exchange, contract.routingKey, queue);
+}
+
+export function contractPublisher<T extends object>(mq: MqClient, contract: MessageContract<T>) {
+    produces.set(contract.name, catalogueEntry(contract));
+
+    return async function (data: T, priority?: number) {
+        const validated = Joi.attempt(data, Joi.object(contract.schema), { allowUnknown: true });
+        await mq.publish(contract.exchange, contract.routingKey, validated, priority);
+    };
+}
+
+export function contractConsumer<T extends object>(
+    mq: MqClient,
+    contract: MessageContract<T>,
+    queue: string,
+    prefetch?: number,
+    retryPolicy?: RetryPolicy,
+) {
+    consumes.set(`${contract.name}@${queue}`, catalogueEntry(contract, queue));
+
+    return mq
+        .consume<T>(queue, prefetch, retryPolicy)
+        .pipe(assertData<T>(contract.schema));
+}
+
+export function messageCatalogue() {
+    return {
+        produces: [...produces.values()],
+        consumes: [...consumes.values()],
+    };
+}
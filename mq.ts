@@ -1,36 +1,144 @@
-import amqp from "amqplib";
+import amqp, {Channel, ChannelModel, ConfirmChannel, Message, Options} from "amqplib";
 import env from "./env";
+import logger from "./logger";
+import {currentContext, REQUEST_ID_HEADER, runWithContext} from "./context";
+import {registerResource} from "./lifecycle";
 import Joi from "joi";
 import {filter, Subject} from "rxjs";
+import {v4 as uuid} from "uuid";
 
 interface RabbitMqInitializer {
     assertExchange(exchange: string): Promise<void>;
     assertQueue(exchange: string, routingKey: string, queue: string): Promise<void>;
 }
 
+export interface RetryPolicy {
+    maxAttempts: number;
+    backoff: number[] | ((attempt: number) => number);
+}
+
+export interface AttemptRecord {
+    attempt: number;
+    errType: string;
+    errMessage: string;
+    failedAt: string;
+}
+
 export interface AbstractConsumeMessage<T extends object> {
     exchange: string;
     routingKey: string;
     sourceData: object;
     data: T;
+    attempt: number;
     ackMessage: () => void;
 }
 
 export interface ConsumeMessage<T extends object> extends AbstractConsumeMessage<T> {
-    throwError: (err: Error) => void;
+    throwError: (err: Error) => Promise<void>;
 }
 
 export interface ErrMessage<T extends object> extends AbstractConsumeMessage<T> {
     errMessage: string;
     errType: string;
+    attempts: AttemptRecord[];
     sourceExchange: string;
     sourceRoutingKey: string;
-    replyData: (priority?: number) => void;
+    replyData: (priority?: number) => Promise<void>;
+}
+
+export interface ConnectOptions {
+    confirm?: boolean;
+    reconnectBackoff?: (attempt: number) => number;
+    bufferWhileDisconnected?: boolean;
+    maxBufferSize?: number;
 }
 
-export async function connect(onConnected: (init: RabbitMqInitializer) => Promise<void>) {
-    const connection = await amqp.connect(env.MQ_HOST);
-    const publisher = await connection.createChannel();
+export class MqDisconnectedError extends Error {}
+
+export class RpcError extends Error {
+    readonly errType: string;
+
+    constructor(errType: string, errMessage: string) {
+        super(errMessage);
+        this.errType = errType;
+    }
+}
+
+export class RpcTimeoutError extends Error {}
+
+export interface RequestOptions {
+    timeout?: number;
+    priority?: number;
+}
+
+interface RpcReply {
+    result?: unknown;
+    error?: {
+        errType: string;
+        errMessage: string;
+    };
+}
+
+interface PendingReply {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+interface PendingPublish {
+    exchange: string;
+    routingKey: string;
+    content: Buffer;
+    options: Options.Publish;
+    expectsReply: boolean;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+// The channel may have closed while the handler ran, the broker then redelivers the message.
+function safeAck(channel: Channel, message: Message) {
+    try {
+        channel.ack(message);
+    } catch (error) {
+        logger.warn(`RabbitMQ ack failed: ${error.message}`);
+    }
+}
+
+export async function connect(onConnected: (init: RabbitMqInitializer) => Promise<void>, options?: ConnectOptions) {
+    const reconnectBackoff = options?.reconnectBackoff || exponentialBackoff(1000, 2, 1000 * 30);
+    const bufferWhileDisconnected = options?.bufferWhileDisconnected ?? true;
+    const maxBufferSize = options?.maxBufferSize ?? 10000;
+
+    let connection: ChannelModel;
+    let publisher: Channel | ConfirmChannel;
+    let publisherOpen = false;
+    let connected = false;
+    let closing = false;
+    const pending: PendingPublish[] = [];
+    const subscriptions: (() => Promise<Channel>)[] = [];
+    const consumers: { channel: Channel; consumerTag: string }[] = [];
+    const drainWaiters: (() => void)[] = [];
+    let inflight = 0;
+    const replies = new Map<string, PendingReply>();
+    let replyQueue: string | undefined;
+    let replyQueueCreated: Promise<void> | undefined;
+
+    function delivered() {
+        inflight++;
+        let settled = false;
+        return function () {
+            if (settled) return;
+            settled = true;
+            inflight = Math.max(0, inflight - 1);
+            if (inflight === 0) {
+                drainWaiters.splice(0).forEach(resolve => resolve());
+            }
+        };
+    }
+
+    function drain() {
+        return inflight === 0 ? Promise.resolve() : new Promise<void>(resolve => drainWaiters.push(resolve));
+    }
 
     async function assertExchange(exchange: string) {
         await publisher.assertExchange(exchange, "topic", { durable: true });
@@ -42,50 +150,265 @@ export async function connect(onConnected: (init: RabbitMqInitializer) => Promis
         await publisher.bindQueue(queue, exchange, routingKey);
     }
 
-    await onConnected({ assertExchange, assertQueue });
+    async function assertRetryQueue(queue: string, delay: number) {
+        const retryQueue = `${queue}.retry.${delay}`;
+        await publisher.assertQueue(retryQueue, {
+            durable: true,
+            arguments: {
+                "x-message-ttl": delay,
+                "x-dead-letter-exchange": "",
+                "x-dead-letter-routing-key": queue,
+            },
+        });
+        return retryQueue;
+    }
+
+    function canSend(message: PendingPublish) {
+        return connected && publisherOpen && (!message.expectsReply || !!replyQueue);
+    }
+
+    function send(message: PendingPublish) {
+        // Resolved when sending, a buffered request must not carry the reply queue of a closed connection.
+        const publishOptions = message.expectsReply ? { ...message.options, replyTo: replyQueue } : message.options;
+        if (!options?.confirm) {
+            publisher.publish(message.exchange, message.routingKey, message.content, publishOptions);
+            message.resolve();
+            return;
+        }
+        publisher.publish(message.exchange, message.routingKey, message.content, publishOptions, function (error) {
+            error ? message.reject(error) : message.resolve();
+        });
+    }
+
+    function flush() {
+        pending.splice(0).forEach(message => canSend(message) ? send(message) : pending.push(message));
+    }
+
+    function publishBuffer(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        publishOptions: Options.Publish,
+        expectsReply: boolean = false,
+    ) {
+        const requestId = currentContext()?.requestId;
+        if (requestId) {
+            publishOptions = { ...publishOptions, headers: { [REQUEST_ID_HEADER]: requestId, ...publishOptions.headers } };
+        }
+
+        return new Promise<void>(function (resolve, reject) {
+            const message = { exchange, routingKey, content, options: publishOptions, expectsReply, resolve, reject };
+            if (canSend(message)) {
+                send(message);
+            } else if (!bufferWhileDisconnected || closing) {
+                reject(new MqDisconnectedError("RabbitMQ is disconnected"));
+            } else if (pending.length >= maxBufferSize) {
+                reject(new MqDisconnectedError("RabbitMQ is disconnected and the publish buffer is full"));
+            } else {
+                pending.push(message);
+            }
+        });
+    }
+
+    async function openChannel(current: ChannelModel, confirm: boolean = false) {
+        const channel = confirm ? await current.createConfirmChannel() : await current.createChannel();
+        // The broker closes a channel on e.g. a failed assert, an "error" without listener would crash the process.
+        channel.on("error", error => logger.error(`RabbitMQ channel error: ${error.message}`));
+        return channel;
+    }
+
+    // Channels close right before their connection, so recovery waits and leaves that case to reconnect().
+    function isCurrent(current: ChannelModel) {
+        return !closing && connected && connection === current;
+    }
+
+    async function openPublisher(current: ChannelModel) {
+        const channel = await openChannel(current, options?.confirm);
+        channel.on("close", function () {
+            publisherOpen = false;
+            reopenPublisher(current);
+        });
+        publisher = channel;
+        publisherOpen = true;
+    }
+
+    function reopenPublisher(current: ChannelModel, attempt: number = 1) {
+        setTimeout(function () {
+            if (!isCurrent(current)) {
+                return;
+            }
+            logger.warn("RabbitMQ publisher channel closed, reopening");
+            openPublisher(current)
+                .then(flush)
+                .catch(function (error) {
+                    logger.error(`RabbitMQ publisher reopen attempt ${attempt} failed: ${error.message}`);
+                    reopenPublisher(current, attempt + 1);
+                });
+        }, reconnectBackoff(attempt));
+    }
+
+    async function runSubscription(setup: () => Promise<Channel>) {
+        const current = connection;
+        const channel = await setup();
+        channel.on("close", function () {
+            const index = consumers.findIndex(consumer => consumer.channel === channel);
+            if (index >= 0) {
+                consumers.splice(index, 1);
+            }
+            resubscribe(setup, current);
+        });
+    }
+
+    function resubscribe(setup: () => Promise<Channel>, current: ChannelModel, attempt: number = 1) {
+        setTimeout(function () {
+            if (!isCurrent(current)) {
+                return;
+            }
+            logger.warn("RabbitMQ consumer channel closed, subscribing again");
+            runSubscription(setup).catch(function (error) {
+                logger.error(`RabbitMQ subscribe attempt ${attempt} failed: ${error.message}`);
+                resubscribe(setup, current, attempt + 1);
+            });
+        }, reconnectBackoff(attempt));
+    }
+
+    async function establish() {
+        const current = await amqp.connect(env.MQ_HOST);
+        connection = current;
+        current.on("error", error => logger.error(`RabbitMQ connection error: ${error.message}`));
+
+        try {
+            await openPublisher(current);
+            await onConnected({ assertExchange, assertQueue });
+            for (const setup of subscriptions) {
+                await runSubscription(setup);
+            }
+        } catch (error) {
+            await current.close().catch(() => undefined);
+            throw error;
+        }
+
+        // Only a fully set up connection reconnects on close, a failed attempt is retried by its caller.
+        current.on("close", function () {
+            connected = false;
+            consumers.splice(0);
+            inflight = 0;
+            drainWaiters.splice(0).forEach(resolve => resolve());
+            if (!closing) {
+                logger.warn("RabbitMQ connection closed, reconnecting");
+                reconnect();
+            }
+        });
+
+        connected = true;
+        flush();
+    }
+
+    function reconnect(attempt: number = 1) {
+        setTimeout(function () {
+            if (closing) {
+                return;
+            }
+            establish()
+                .then(() => logger.info(`RabbitMQ reconnected after ${attempt} attempt(s)`))
+                .catch(function (error) {
+                    logger.error(`RabbitMQ reconnect attempt ${attempt} failed: ${error.message}`);
+                    reconnect(attempt + 1);
+                });
+        }, reconnectBackoff(attempt));
+    }
+
+    await establish();
 
     async function publish(exchange: string, routingKey: string, data: object, priority?: number) {
         const json = JSON.stringify(data);
         const buffer = Buffer.from(json, "utf-8");
-        publisher.publish(exchange, routingKey, buffer, { priority });
+        await publishBuffer(exchange, routingKey, buffer, { priority });
     }
 
-    function consume<T extends object>(queue: string, prefetch: number = 200) {
+    function subscribe(setup: () => Promise<Channel>) {
+        subscriptions.push(setup);
+        if (connected) {
+            const current = connection;
+            runSubscription(setup).catch(function (error) {
+                logger.error(`RabbitMQ subscribe failed: ${error.message}`);
+                resubscribe(setup, current);
+            });
+        }
+    }
+
+    function consume<T extends object>(queue: string, prefetch: number = 200, retryPolicy?: RetryPolicy) {
         const message$ = new Subject<ConsumeMessage<T>>();
 
-        !async function () {
-            const listener = await connection.createChannel();
+        subscribe(async function () {
+            const listener = await openChannel(connection);
             await listener.prefetch(prefetch);
-            await listener.consume(queue, function (message) {
+            const { consumerTag } = await listener.consume(queue, function (message) {
                 if (!message) return;
-                const exchange = message.fields.exchange;
-                const routingKey = message.fields.routingKey;
-                const sourceData = JSON.parse(message.content.toString("utf-8"));
+                const settle = delivered();
+                const headers = message.properties.headers || {};
+                const exchange: string = headers["x-source-exchange"] ?? message.fields.exchange;
+                const routingKey: string = headers["x-source-routing-key"] ?? message.fields.routingKey;
+                const history: AttemptRecord[] = headers["x-attempt-history"] || [];
+                const attempt = history.length + 1;
+                const content = message.content;
+                const priority = message.properties.priority;
+                const sourceData = JSON.parse(content.toString("utf-8"));
                 const data = sourceData as T;
-                const ackMessage = () => listener.ack(message);
+                const ackMessage = () => {
+                    safeAck(listener, message);
+                    settle();
+                };
 
                 async function throwError(err: Error) {
+                    const attempts = [...history, {
+                        attempt,
+                        errType: err.constructor.name,
+                        errMessage: err.message,
+                        failedAt: new Date().toISOString(),
+                    }];
+
+                    if (retryPolicy && attempt < retryPolicy.maxAttempts) {
+                        const delay = retryDelay(retryPolicy, attempt);
+                        const retryQueue = await assertRetryQueue(queue, delay);
+                        await publishBuffer("", retryQueue, content, {
+                            priority,
+                            headers: {
+                                "x-source-exchange": exchange,
+                                "x-source-routing-key": routingKey,
+                                "x-attempt-history": attempts,
+                            },
+                        });
+                        return;
+                    }
+
                     const errData = {
                         sourceExchange: exchange,
                         sourceRoutingKey: routingKey,
                         sourceData,
                         errType: err.constructor.name,
                         errMessage: err.message,
+                        attempts,
                     }
                     await assertQueue("error", errData.errType, "errors");
                     await publish("error", errData.errType, errData);
                 }
 
-                message$.next({
-                    exchange,
-                    routingKey,
-                    sourceData,
-                    data,
-                    ackMessage,
-                    throwError,
-                });
+                runWithContext({ requestId: headers[REQUEST_ID_HEADER], route: `${exchange} ${routingKey}` }, () =>
+                    message$.next({
+                        exchange,
+                        routingKey,
+                        sourceData,
+                        data,
+                        attempt,
+                        ackMessage,
+                        throwError,
+                    })
+                );
             });
-        }();
+            consumers.push({ channel: listener, consumerTag });
+            return listener;
+        });
 
         return message$;
     }
@@ -93,26 +416,189 @@ export async function connect(onConnected: (init: RabbitMqInitializer) => Promis
     function consumeErrors<T extends object>(prefetch: number = 200) {
         const errMessage$ = new Subject<ErrMessage<T>>();
 
-        !async function () {
-            const listener = await connection.createChannel();
+        subscribe(async function () {
+            const listener = await openChannel(connection);
             await listener.prefetch(prefetch);
-            await listener.consume("errors", function (message) {
+            const { consumerTag } = await listener.consume("errors", function (message) {
                 if (!message) return;
+                const settle = delivered();
                 const errMessage = JSON.parse(message.content.toString("utf-8")) as ErrMessage<T>;
                 errMessage.exchange = message.fields.exchange;
                 errMessage.routingKey = message.fields.routingKey;
                 errMessage.data = errMessage.sourceData as T;
-                errMessage.ackMessage = () => listener.ack(message);
+                errMessage.attempt = errMessage.attempts?.length ?? 1;
+                errMessage.ackMessage = () => {
+                    safeAck(listener, message);
+                    settle();
+                };
                 errMessage.replyData = (priority?: number) =>
                     publish(errMessage.sourceExchange, errMessage.sourceRoutingKey, errMessage.data, priority);
                 errMessage$.next(errMessage);
             });
-        }();
+            consumers.push({ channel: listener, consumerTag });
+            return listener;
+        });
 
         return errMessage$;
     }
 
-    return { publish, consume, consumeErrors };
+    async function createReplyQueue() {
+        const listener = await openChannel(connection);
+        const { queue } = await listener.assertQueue("", { exclusive: true, autoDelete: true });
+        await listener.consume(queue, function (message) {
+            if (!message) return;
+            const reply = replies.get(message.properties.correlationId);
+            if (!reply) return;
+            replies.delete(message.properties.correlationId);
+            clearTimeout(reply.timer);
+
+            const content = JSON.parse(message.content.toString("utf-8")) as RpcReply;
+            if (content.error) {
+                reply.reject(new RpcError(content.error.errType, content.error.errMessage));
+            } else {
+                reply.resolve(content.result);
+            }
+        }, { noAck: true });
+        // The exclusive queue goes away with its channel, requests are held back until the next one exists.
+        listener.on("close", function () {
+            if (replyQueue === queue) {
+                replyQueue = undefined;
+            }
+        });
+        replyQueue = queue;
+        flush();
+        return listener;
+    }
+
+    function replyQueueReady() {
+        if (!replyQueueCreated) {
+            replyQueueCreated = new Promise<void>(function (resolve) {
+                subscribe(() => createReplyQueue().then(function (listener) {
+                    resolve();
+                    return listener;
+                }));
+            });
+        }
+        return replyQueueCreated;
+    }
+
+    async function request<R = unknown>(exchange: string, routingKey: string, data: object, requestOptions?: RequestOptions) {
+        if (!connected && (!bufferWhileDisconnected || closing)) {
+            throw new MqDisconnectedError("RabbitMQ is disconnected");
+        }
+        await replyQueueReady();
+        const correlationId = uuid();
+        const timeout = requestOptions?.timeout ?? 30000;
+
+        const reply = new Promise<R>(function (resolve, reject) {
+            const timer = setTimeout(function () {
+                replies.delete(correlationId);
+                reject(new RpcTimeoutError(`No reply from ${exchange}/${routingKey} within ${timeout}ms`));
+            }, timeout);
+            replies.set(correlationId, { resolve, reject, timer });
+        });
+
+        const buffer = Buffer.from(JSON.stringify(data), "utf-8");
+        await publishBuffer(exchange, routingKey, buffer, {
+            correlationId,
+            expiration: timeout,
+            priority: requestOptions?.priority,
+        }, true).catch(function (error) {
+            const pendingReply = replies.get(correlationId);
+            replies.delete(correlationId);
+            clearTimeout(pendingReply?.timer);
+            pendingReply?.reject(error);
+        });
+
+        return reply;
+    }
+
+    function respond<T extends object, R>(
+        queue: string,
+        schema: Record<string, Joi.AnySchema>,
+        handler: (data: T) => Promise<R>,
+        prefetch: number = 200,
+    ) {
+        subscribe(async function () {
+            const listener = await openChannel(connection);
+            await listener.prefetch(prefetch);
+            const { consumerTag } = await listener.consume(queue, function (message) {
+                if (!message) return;
+                const settle = delivered();
+                const { replyTo, correlationId, headers } = message.properties;
+                const content = message.content;
+
+                async function handle() {
+                    const sourceData = JSON.parse(content.toString("utf-8"));
+                    const data = Joi.attempt(sourceData, Joi.object(schema), { allowUnknown: true }) as T;
+                    return handler(data);
+                }
+
+                runWithContext({ requestId: headers?.[REQUEST_ID_HEADER], route: `rpc ${queue}` }, handle)
+                    .then(result => ({ result }) as RpcReply)
+                    .catch(err => ({ error: { errType: err.constructor.name, errMessage: err.message } }) as RpcReply)
+                    .then(function (reply) {
+                        if (!replyTo) return;
+                        const buffer = Buffer.from(JSON.stringify(reply), "utf-8");
+                        return publishBuffer("", replyTo, buffer, { correlationId });
+                    })
+                    .catch(error => logger.error(`RabbitMQ reply to ${queue} failed: ${error.message}`))
+                    .finally(function () {
+                        safeAck(listener, message);
+                        settle();
+                    });
+            });
+            consumers.push({ channel: listener, consumerTag });
+            return listener;
+        });
+    }
+
+    async function stopConsuming() {
+        await Promise.all(consumers.splice(0).map(consumer =>
+            consumer.channel.cancel(consumer.consumerTag).catch(() => undefined)));
+        await drain();
+    }
+
+    async function close() {
+        closing = true;
+        await stopConsuming();
+        connected = false;
+        pending.splice(0).forEach(message => message.reject(new MqDisconnectedError("RabbitMQ is closing")));
+        replies.forEach(reply => clearTimeout(reply.timer));
+        replies.forEach(reply => reply.reject(new MqDisconnectedError("RabbitMQ is closing")));
+        replies.clear();
+        await connection.close();
+    }
+
+    registerResource({
+        name: "rabbitmq consumers",
+        phase: "consumers",
+        close: stopConsuming,
+    });
+    registerResource({
+        name: "rabbitmq",
+        phase: "connections",
+        close,
+        check: async function () {
+            if (!connected) {
+                throw new MqDisconnectedError("RabbitMQ is disconnected");
+            }
+        },
+    });
+
+    return { publish, consume, consumeErrors, request, respond, close };
+}
+
+function retryDelay(retryPolicy: RetryPolicy, attempt: number) {
+    if (typeof retryPolicy.backoff === "function") {
+        return Math.max(0, Math.floor(retryPolicy.backoff(attempt)));
+    }
+    const schedule = retryPolicy.backoff;
+    return schedule[Math.min(attempt, schedule.length) - 1] ?? 0;
+}
+
+export function exponentialBackoff(initialDelay: number, factor: number = 2, maxDelay: number = 1000 * 60 * 60) {
+    return (attempt: number) => Math.min(initialDelay * Math.pow(factor, attempt - 1), maxDelay);
 }
 
 export function assertData<T extends object>(schema: Record<string, Joi.AnySchema>) {
@@ -122,7 +608,9 @@ export function assertData<T extends object>(schema: Record<string, Joi.AnySchem
             return true;
         } catch (error) {
             message.ackMessage();
-            message.throwError(error);
+            message.throwError(error).catch(function (err) {
+                logger.error(`Failed to forward invalid message ${message.exchange} ${message.routingKey}: ${err.message}`);
+            });
             return false;
         }
     });
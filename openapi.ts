@@ -0,0 +1,273 @@
+import Joi from "joi";
+import env from "./env";
+import {
+    asyncMiddleware,
+    ExpressRouter,
+    getMiddlewareMetadata,
+    MiddlewareMetadata,
+    NoPermissionException,
+    NotFoundException,
+    ServerErrorException,
+    UnauthorizedException,
+    WrongParameterException,
+} from "./server-http";
+import {ACCESS_TOKEN_COOKIE} from "./session";
+
+export interface OpenApiOptions {
+    title: string;
+    version: string;
+    description?: string;
+    servers?: { url: string; description?: string }[];
+    documentPath?: string;
+    docsPath?: string | false;
+}
+
+type JsonSchema = Record<string, any>;
+
+// Built lazily, server-http imports this module before its exception classes are defined.
+function errorResponses() {
+    return [
+        { status: 400, exception: WrongParameterException, when: (m: MiddlewareMetadata) => !!(m.param || m.query || m.body || m.files) },
+        { status: 401, exception: UnauthorizedException, when: (m: MiddlewareMetadata) => !!m.authorization },
+        { status: 403, exception: NoPermissionException, when: (m: MiddlewareMetadata) => !!m.authorization },
+        { status: 404, exception: NotFoundException, when: (m: MiddlewareMetadata) => !!m.param || !!m.authorization },
+        { status: 500, exception: ServerErrorException, when: () => true },
+    ];
+}
+
+function isRequired(description: Joi.Description) {
+    return (description.flags as Record<string, any> | undefined)?.presence === "required";
+}
+
+function describeToJsonSchema(description: Joi.Description): JsonSchema {
+    const flags: Record<string, any> = description.flags || {};
+    const schema: JsonSchema = {};
+
+    switch (description.type) {
+        case "string":
+            schema.type = "string";
+            break;
+        case "number":
+            schema.type = description.rules?.some((rule: any) => rule.name === "integer") ? "integer" : "number";
+            break;
+        case "boolean":
+            schema.type = "boolean";
+            break;
+        case "date":
+            schema.type = "string";
+            schema.format = "date-time";
+            break;
+        case "binary":
+            schema.type = "string";
+            schema.format = "binary";
+            break;
+        case "array":
+            schema.type = "array";
+            schema.items = description.items?.length === 1 ? describeToJsonSchema(description.items[0]) : {};
+            break;
+        case "object":
+            Object.assign(schema, objectToJsonSchema(description.keys || {}));
+            break;
+        case "alternatives":
+            schema.oneOf = (description.matches || [])
+                .filter((match: any) => match.schema)
+                .map((match: any) => describeToJsonSchema(match.schema));
+            break;
+    }
+
+    (description.rules || []).forEach(function (rule: any) {
+        const limit = rule.args?.limit;
+        switch (`${description.type}.${rule.name}`) {
+            case "string.min": schema.minLength = limit; break;
+            case "string.max": schema.maxLength = limit; break;
+            case "string.length": schema.minLength = schema.maxLength = limit; break;
+            case "string.email": schema.format = "email"; break;
+            case "string.guid": schema.format = "uuid"; break;
+            case "string.uri": schema.format = "uri"; break;
+            case "string.isoDate": schema.format = "date-time"; break;
+            case "string.pattern": schema.pattern = rule.args?.regex?.slice(1, -1); break;
+            case "number.min": schema.minimum = limit; break;
+            case "number.max": schema.maximum = limit; break;
+            case "number.greater": schema.exclusiveMinimum = limit; break;
+            case "number.less": schema.exclusiveMaximum = limit; break;
+            case "array.min": schema.minItems = limit; break;
+            case "array.max": schema.maxItems = limit; break;
+        }
+    });
+
+    if (flags.only && description.allow) {
+        schema.enum = description.allow;
+    } else if (description.allow?.includes(null)) {
+        schema.nullable = true;
+    }
+    if (flags.default !== undefined && typeof flags.default !== "function") {
+        schema.default = flags.default;
+    }
+    if (flags.description) {
+        schema.description = flags.description;
+    }
+
+    return schema;
+}
+
+function objectToJsonSchema(keys: Record<string, Joi.Description>): JsonSchema {
+    const required = Object.entries(keys)
+        .filter(([, description]) => isRequired(description))
+        .map(([key]) => key);
+
+    return {
+        type: "object",
+        properties: Object.fromEntries(
+            Object.entries(keys).map(([key, description]) => [key, describeToJsonSchema(description)])
+        ),
+        ...(required.length > 0 ? { required } : {}),
+    };
+}
+
+export function joiToJsonSchema(schema: Record<string, Joi.AnySchema> | Joi.AnySchema): JsonSchema {
+    const joiSchema = Joi.isSchema(schema) ? schema : Joi.object(schema);
+    return describeToJsonSchema(joiSchema.describe());
+}
+
+function parameters(location: "path" | "query", schema?: Record<string, Joi.AnySchema>) {
+    return Object.entries(schema || {}).map(function ([name, field]) {
+        const description = field.describe();
+        return {
+            name,
+            in: location,
+            required: location === "path" || isRequired(description),
+            schema: describeToJsonSchema(description),
+        };
+    });
+}
+
+function multipartSchema(files: string[], body?: Record<string, Joi.AnySchema>) {
+    const schema = body ? joiToJsonSchema(body) : { type: "object", properties: {} };
+    files.forEach(function (field) {
+        schema.properties[field] = { type: "array", items: { type: "string", format: "binary" } };
+    });
+    return schema;
+}
+
+function operation(router: ExpressRouter) {
+    const metadata = router.middlewares
+        .map(middleware => getMiddlewareMetadata(middleware))
+        .reduce<MiddlewareMetadata>((prev, curr) => ({ ...prev, ...curr }), {});
+
+    const responses: Record<string, object> = {
+        [metadata.response ? "200" : "default"]: {
+            description: "Success",
+            ...(metadata.response ? {
+                content: { "application/json": { schema: joiToJsonSchema(metadata.response) } },
+            } : {}),
+        },
+    };
+    errorResponses()
+        .filter(error => error.when(metadata))
+        .forEach(function (error) {
+            responses[error.status.toString()] = {
+                description: error.exception.name,
+                content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+            };
+        });
+
+    return {
+        summary: router.summary,
+        description: router.description,
+        tags: router.tags,
+        parameters: [...parameters("path", metadata.param), ...parameters("query", metadata.query)],
+        ...(metadata.files ? {
+            requestBody: {
+                required: true,
+                content: { "multipart/form-data": { schema: multipartSchema(metadata.files, metadata.body) } },
+            },
+        } : metadata.body ? {
+            requestBody: {
+                required: true,
+                content: { "application/json": { schema: joiToJsonSchema(metadata.body) } },
+            },
+        } : {}),
+        ...(metadata.authorization ? { security: [{ bearerAuth: [] }] } : {}),
+        responses,
+    };
+}
+
+function securityScheme() {
+    switch (env.SERVER_JWT_FROM) {
+        case "QueryParameter":
+            return { type: "apiKey", in: "query", name: "token" };
+        case "Cookie":
+            return { type: "apiKey", in: "cookie", name: ACCESS_TOKEN_COOKIE };
+        default:
+            return { type: "http", scheme: "bearer", bearerFormat: "JWT" };
+    }
+}
+
+export function generateOpenApiDocument(routers: ExpressRouter[], options: OpenApiOptions) {
+    const paths: Record<string, Record<string, object>> = {};
+
+    routers.forEach(function (router) {
+        const path = router.path.replace(/:(\w+)/g, "{$1}");
+        paths[path] = { ...paths[path], [router.method.toLowerCase()]: operation(router) };
+    });
+
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: options.title,
+            version: options.version,
+            description: options.description,
+        },
+        servers: options.servers,
+        paths,
+        components: {
+            securitySchemes: {
+                bearerAuth: securityScheme(),
+            },
+            schemas: {
+                Error: {
+                    type: "object",
+                    properties: { message: { type: "string" } },
+                    required: ["message"],
+                },
+            },
+        },
+    };
+}
+
+const docsTemplate = (title: string, documentPath: string) => `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8"/>
+    <title>${title}</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css"/>
+</head>
+<body>
+<div id="swagger-ui"></div>
+<script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+<script>window.ui = SwaggerUIBundle({ url: "${documentPath}", dom_id: "#swagger-ui" });</script>
+</body>
+</html>`;
+
+export function openApiRouters(document: object, options: OpenApiOptions): ExpressRouter[] {
+    const documentPath = options.documentPath || "/openapi.json";
+    const routers: ExpressRouter[] = [{
+        method: "GET",
+        path: documentPath,
+        middlewares: [asyncMiddleware(async function (_request, response) {
+            response.send(document);
+        })],
+    }];
+
+    if (options.docsPath !== false) {
+        routers.push({
+            method: "GET",
+            path: options.docsPath || "/docs",
+            middlewares: [asyncMiddleware(async function (_request, response) {
+                response.type("html").send(docsTemplate(options.title, documentPath));
+            })],
+        });
+    }
+
+    return routers;
+}
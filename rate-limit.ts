@@ -0,0 +1,151 @@
+import {Request} from "express";
+import rateLimit, {MemoryStore, Options, Store} from "express-rate-limit";
+import {JwtPayload, verify} from "jsonwebtoken";
+import knex from "knex";
+import env from "./env";
+import {jwtFromRequest} from "./session";
+import {isTokenType} from "./encrypt";
+
+export type RateLimitKey = "ip" | "user" | "apiKey" | ((request: Request) => string | undefined);
+
+export interface RateLimitOptions {
+    windowMs?: number;
+    limit?: number;
+    keyBy?: RateLimitKey;
+    store?: (name: string) => Store;
+    /** Api keys only get their own bucket once accepted here, without it they are ignored. */
+    validateApiKey?: (key: string, request: Request) => boolean | Promise<boolean>;
+}
+
+function userKey(request: Request) {
+    const token = jwtFromRequest(request);
+    if (!token) {
+        return undefined;
+    }
+    try {
+        const payload = verify(token, env.JWT_SECRET) as JwtPayload;
+        return payload.sub && isTokenType(payload, "access") ? `user:${payload.sub}` : undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+async function apiKey(request: Request, validateApiKey?: RateLimitOptions["validateApiKey"]) {
+    const key = request.header("x-api-key");
+    if (!key || !validateApiKey || !await validateApiKey(key, request)) {
+        return undefined;
+    }
+    return `key:${key}`;
+}
+
+export async function rateLimitKey(
+    request: Request,
+    keyBy: RateLimitKey = "ip",
+    validateApiKey?: RateLimitOptions["validateApiKey"],
+) {
+    let key: string | undefined;
+    if (typeof keyBy === "function") {
+        key = keyBy(request);
+    } else if (keyBy === "user") {
+        key = userKey(request) || await apiKey(request, validateApiKey);
+    } else if (keyBy === "apiKey") {
+        key = await apiKey(request, validateApiKey) || userKey(request);
+    }
+    return key || `ip:${request.ip}`;
+}
+
+export function createRateLimiter(name: string, options?: RateLimitOptions) {
+    return rateLimit({
+        windowMs: options?.windowMs ?? env.SERVER_RATE_LIMIT_WINDOW,
+        limit: options?.limit ?? env.SERVER_RATE_LIMIT_MAX,
+        keyGenerator: request => rateLimitKey(request, options?.keyBy ?? env.SERVER_RATE_LIMIT_KEY, options?.validateApiKey),
+        store: options?.store ? options.store(name) : new MemoryStore(),
+    });
+}
+
+export class KnexRateLimitStore implements Store {
+    private readonly database: knex.Knex;
+    private readonly tableName: string;
+    private windowMs: number = 1000;
+    readonly prefix: string;
+    readonly localKeys = false;
+
+    constructor(database: knex.Knex, prefix: string, tableName: string = "rate_limits") {
+        this.database = database;
+        this.prefix = prefix;
+        this.tableName = tableName;
+    }
+
+    static factory(database: knex.Knex, tableName?: string) {
+        return (name: string) => new KnexRateLimitStore(database, name, tableName);
+    }
+
+    async createTable() {
+        if (await this.database.schema.hasTable(this.tableName)) {
+            return;
+        }
+        await this.database.schema.createTable(this.tableName, function (table) {
+            table.string("key").primary();
+            table.integer("hits").notNullable();
+            table.timestamp("reset_at").notNullable().index();
+        });
+    }
+
+    init(options: Options) {
+        this.windowMs = options.windowMs;
+    }
+
+    private prefixed(key: string) {
+        return `${this.prefix}:${key}`;
+    }
+
+    async get(key: string) {
+        const row = await this.database(this.tableName).where("key", this.prefixed(key)).first();
+        if (!row || new Date(row.reset_at).getTime() <= Date.now()) {
+            return undefined;
+        }
+        return { totalHits: Number(row.hits), resetTime: new Date(row.reset_at) };
+    }
+
+    async increment(key: string) {
+        const tableName = this.tableName;
+        const windowMs = this.windowMs;
+        const prefixedKey = this.prefixed(key);
+
+        // An upsert, two first hits on a missing row would otherwise both insert.
+        return this.database.transaction(async function (transaction) {
+            const now = new Date();
+            const resetTime = new Date(now.getTime() + windowMs);
+            const expired = transaction.raw("?? <= ?", [`${tableName}.reset_at`, now]);
+            await transaction(tableName)
+                .insert({ key: prefixedKey, hits: 1, reset_at: resetTime })
+                .onConflict("key")
+                .merge({
+                    // hits goes first, mysql applies assignments in order and reads the updated reset_at otherwise.
+                    hits: transaction.raw("case when ? then 1 else ?? + 1 end", [expired, `${tableName}.hits`]),
+                    reset_at: transaction.raw("case when ? then ? else ?? end", [expired, resetTime, `${tableName}.reset_at`]),
+                });
+            const row = await transaction(tableName).where("key", prefixedKey).first();
+            return { totalHits: Number(row.hits), resetTime: new Date(row.reset_at) };
+        });
+    }
+
+    async decrement(key: string) {
+        await this.database(this.tableName)
+            .where("key", this.prefixed(key))
+            .where("hits", ">", 0)
+            .decrement("hits", 1);
+    }
+
+    async resetKey(key: string) {
+        await this.database(this.tableName).where("key", this.prefixed(key)).delete();
+    }
+
+    async resetAll() {
+        await this.database(this.tableName).where("key", "like", `${this.prefix}:%`).delete();
+    }
+
+    async purgeExpired() {
+        await this.database(this.tableName).where("reset_at", "<=", new Date()).delete();
+    }
+}
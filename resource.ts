@@ -0,0 +1,203 @@
+import Joi from "joi";
+import {pick} from "lodash";
+import {currentDatabase, readDatabase} from "./database";
+import {
+    asyncMiddleware,
+    ExpressRouter,
+    hasAuthorization,
+    Middleware,
+    NotFoundException,
+    validBody,
+    validParam,
+    validQuery,
+    validResponseAndSend,
+} from "./server-http";
+
+export type ResourceOperation = "list" | "get" | "create" | "update" | "delete";
+
+export interface ResourceOptions {
+    table: string;
+    path: string;
+    primaryKey?: string;
+    primaryKeySchema?: Joi.AnySchema;
+    createSchema: Record<string, Joi.AnySchema>;
+    updateSchema: Record<string, Joi.AnySchema>;
+    responseSchema: Record<string, Joi.AnySchema>;
+    filterableColumns?: string[];
+    sortableColumns?: string[];
+    defaultPageSize?: number;
+    maxPageSize?: number;
+    softDeleteColumn?: string;
+    operations?: ResourceOperation[];
+    authorization?: boolean | ResourceOperation[];
+    guards?: Partial<Record<ResourceOperation, Middleware[]>>;
+}
+
+const allOperations: ResourceOperation[] = ["list", "get", "create", "update", "delete"];
+
+function parseSort(sort: string | undefined, sortableColumns: string[]) {
+    if (!sort) {
+        return [];
+    }
+    return sort
+        .split(",")
+        .map(function (column) {
+            const order = column.startsWith("-") ? "desc" : "asc";
+            return { column: column.replace(/^[-+]/, ""), order };
+        })
+        .filter(item => sortableColumns.includes(item.column));
+}
+
+export function resource(options: ResourceOptions): ExpressRouter[] {
+    const primaryKey = options.primaryKey || "id";
+    const primaryKeySchema = options.primaryKeySchema || Joi.number().integer().required();
+    const filterableColumns = options.filterableColumns || [];
+    const sortableColumns = options.sortableColumns || [];
+    const maxPageSize = options.maxPageSize || 100;
+    const operations = options.operations || allOperations;
+    const columns = Object.keys(options.responseSchema);
+    const itemPath = `${options.path}/:${primaryKey}`;
+
+    function guard(operation: ResourceOperation) {
+        const authorization = options.authorization === true ||
+            (Array.isArray(options.authorization) && options.authorization.includes(operation));
+        return [
+            ...(authorization ? [hasAuthorization] : []),
+            ...(options.guards?.[operation] || []),
+        ];
+    }
+
+    function selectRows(fromPrimary: boolean = false) {
+        const query = (fromPrimary ? currentDatabase() : readDatabase())(options.table).select(columns);
+        return options.softDeleteColumn ? query.whereNull(options.softDeleteColumn) : query;
+    }
+
+    function findRow(id: string | number, fromPrimary: boolean = false) {
+        return selectRows(fromPrimary).where(primaryKey, id).first();
+    }
+
+    function writeRows() {
+        const query = currentDatabase()(options.table);
+        return options.softDeleteColumn ? query.whereNull(options.softDeleteColumn) : query;
+    }
+
+    const routers: Record<ResourceOperation, ExpressRouter> = {
+        list: {
+            method: "GET",
+            path: options.path,
+            middlewares: [
+                ...guard("list"),
+                validQuery({
+                    page: Joi.number().integer().min(1).default(1),
+                    pageSize: Joi.number().integer().min(1).max(maxPageSize).default(options.defaultPageSize || 20),
+                    sort: Joi.string(),
+                    ...Object.fromEntries(filterableColumns.map(column => [column, Joi.string()])),
+                }),
+                asyncMiddleware(async function (request, response) {
+                    const { page, pageSize, sort } = request.data.query;
+                    const filters = Object.fromEntries(
+                        filterableColumns
+                            .filter(column => request.data.query[column] !== undefined)
+                            .map(column => [column, request.data.query[column]])
+                    );
+
+                    const [{ total }] = await selectRows()
+                        .clearSelect()
+                        .where(filters)
+                        .count({ total: "*" });
+                    const items = await selectRows()
+                        .where(filters)
+                        .orderBy(parseSort(sort, sortableColumns))
+                        .offset((page - 1) * pageSize)
+                        .limit(pageSize);
+
+                    response.data = { items, total: Number(total), page, pageSize };
+                }),
+                validResponseAndSend({
+                    items: Joi.array().items(Joi.object(options.responseSchema)).required(),
+                    total: Joi.number().integer().required(),
+                    page: Joi.number().integer().required(),
+                    pageSize: Joi.number().integer().required(),
+                }),
+            ],
+        },
+        get: {
+            method: "GET",
+            path: itemPath,
+            middlewares: [
+                ...guard("get"),
+                validParam({ [primaryKey]: primaryKeySchema }),
+                asyncMiddleware(async function (request, response) {
+                    const row = await findRow(request.data.param[primaryKey]);
+                    if (!row) {
+                        throw new NotFoundException(`${options.table} does not exist`);
+                    }
+                    response.data = row;
+                }),
+                validResponseAndSend(options.responseSchema),
+            ],
+        },
+        create: {
+            method: "POST",
+            path: options.path,
+            middlewares: [
+                ...guard("create"),
+                validBody(options.createSchema),
+                asyncMiddleware(async function (request, response) {
+                    // validBody keeps unknown keys, only schema columns may be written.
+                    const values = pick(request.data.body, Object.keys(options.createSchema));
+                    const [inserted] = await currentDatabase()(options.table)
+                        .insert(values)
+                        .returning(primaryKey);
+                    const id = typeof inserted === "object" ? inserted[primaryKey] : inserted;
+                    response.status(201);
+                    response.data = await findRow(values[primaryKey] ?? id, true);
+                }),
+                validResponseAndSend(options.responseSchema),
+            ],
+        },
+        update: {
+            method: "PUT",
+            path: itemPath,
+            middlewares: [
+                ...guard("update"),
+                validParam({ [primaryKey]: primaryKeySchema }),
+                validBody(options.updateSchema),
+                asyncMiddleware(async function (request, response) {
+                    const id = request.data.param[primaryKey];
+                    const values = pick(request.data.body, Object.keys(options.updateSchema));
+                    // Nothing to change, knex refuses an empty update, so answer with the row as it is.
+                    const updated = Object.keys(values).length > 0
+                        ? await writeRows().where(primaryKey, id).update(values)
+                        : await findRow(id, true).then(row => row ? 1 : 0);
+                    if (!updated) {
+                        throw new NotFoundException(`${options.table} does not exist`);
+                    }
+                    response.data = await findRow(id, true);
+                }),
+                validResponseAndSend(options.responseSchema),
+            ],
+        },
+        delete: {
+            method: "DELETE",
+            path: itemPath,
+            middlewares: [
+                ...guard("delete"),
+                validParam({ [primaryKey]: primaryKeySchema }),
+                asyncMiddleware(async function (request, response) {
+                    const id = request.data.param[primaryKey];
+                    const deleted = options.softDeleteColumn
+                        ? await writeRows().where(primaryKey, id).update({ [options.softDeleteColumn]: new Date() })
+                        : await writeRows().where(primaryKey, id).delete();
+                    if (!deleted) {
+                        throw new NotFoundException(`${options.table} does not exist`);
+                    }
+                    response.data = { [primaryKey]: id };
+                }),
+                validResponseAndSend({ [primaryKey]: primaryKeySchema }),
+            ],
+        },
+    };
+
+    return operations.map(operation => routers[operation]);
+}
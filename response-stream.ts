@@ -0,0 +1,134 @@
+import {Readable, Transform} from "stream";
+import {pipeline} from "stream/promises";
+import {Request} from "express";
+import Joi from "joi";
+import {Knex} from "knex";
+import logger from "./logger";
+import {Middleware, ServerErrorException} from "./server-http";
+
+export type StreamFormat = "ndjson" | "csv";
+
+export interface StreamResponseOptions {
+    filename?: string;
+    defaultFormat?: StreamFormat;
+    highWaterMark?: number;
+}
+
+const contentTypes: Record<StreamFormat, string> = {
+    ndjson: "application/x-ndjson; charset=utf-8",
+    csv: "text/csv; charset=utf-8",
+};
+
+export function negotiateStreamFormat(request: Request, defaultFormat: StreamFormat = "ndjson"): StreamFormat {
+    const format = request.query.format;
+    if (format === "csv" || format === "ndjson") {
+        return format;
+    }
+    const accepted = request.accepts(["application/x-ndjson", "text/csv"]);
+    if (accepted === "text/csv") {
+        return "csv";
+    }
+    if (accepted === "application/x-ndjson") {
+        return "ndjson";
+    }
+    return defaultFormat;
+}
+
+function csvValue(value: unknown) {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    const text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function serializer(format: StreamFormat, schema: Record<string, Joi.AnySchema>) {
+    const validator = Joi.object(schema);
+    const columns = Object.keys(schema);
+    let headerWritten = false;
+
+    return new Transform({
+        writableObjectMode: true,
+        transform(row, _encoding, callback) {
+            try {
+                const data = Joi.attempt(row, validator, { stripUnknown: true });
+                if (format === "ndjson") {
+                    callback(null, JSON.stringify(data) + "\n");
+                    return;
+                }
+
+                const line = columns.map(column => csvValue(data[column])).join(",") + "\r\n";
+                if (!headerWritten) {
+                    headerWritten = true;
+                    callback(null, columns.map(csvValue).join(",") + "\r\n" + line);
+                    return;
+                }
+                callback(null, line);
+            } catch (error) {
+                callback(new ServerErrorException(`ResponseValidationError: ${error.message}`));
+            }
+        },
+        flush(callback) {
+            if (format === "csv" && !headerWritten) {
+                callback(null, columns.map(csvValue).join(",") + "\r\n");
+                return;
+            }
+            callback();
+        },
+    });
+}
+
+export function streamResponse(
+    query: (request: Request) => Knex.QueryBuilder,
+    schema: Record<string, Joi.AnySchema>,
+    options?: StreamResponseOptions,
+): Middleware {
+    return function (request, response, next) {
+        const format = negotiateStreamFormat(request, options?.defaultFormat);
+        const rows = query(request).stream({ highWaterMark: options?.highWaterMark });
+        const output = serializer(format, schema);
+        // Failures surface through the output iterator, this only keeps pipeline from rejecting unhandled.
+        pipeline(rows, output).catch(() => undefined);
+        const chunks = output[Symbol.asyncIterator]();
+        // The request closes as soon as its body is read, only the response tells a client abort apart.
+        response.once("close", function () {
+            if (!response.writableFinished) {
+                output.destroy();
+            }
+        });
+
+        async function* body(first: IteratorResult<Buffer>) {
+            try {
+                for (let chunk = first; !chunk.done; chunk = await chunks.next()) {
+                    yield chunk.value;
+                }
+            } finally {
+                output.destroy();
+            }
+        }
+
+        // Wait for the first chunk so query and validation errors still get a proper error response.
+        chunks.next()
+            .then(function (first) {
+                response.status(200).type(contentTypes[format]);
+                if (options?.filename) {
+                    response.attachment(`${options.filename}.${format === "csv" ? "csv" : "ndjson"}`);
+                }
+                return pipeline(Readable.from(body(first)), response);
+            }, function (error) {
+                if (!response.destroyed && !response.headersSent) {
+                    next(error);
+                }
+            })
+            .catch(function (error) {
+                if (error.code === "ERR_STREAM_PREMATURE_CLOSE") {
+                    logger.debug(`Client aborted stream ${request.method} ${request.originalUrl}`);
+                    return;
+                }
+                logger.error(`Stream ${request.method} ${request.originalUrl} failed: ${error.message}`);
+                response.destroy(error);
+            });
+    };
+}
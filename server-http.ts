@@ -10,21 +10,31 @@ import express, {
     urlencoded,
 } from "express";
 import multer, {MulterError} from "multer";
-import passport from "passport";
+import passport, {Passport, PassportStatic} from "passport";
 import {JwtPayload} from "jsonwebtoken";
-import {ExtractJwt, Strategy, StrategyOptions} from "passport-jwt";
-import rateLimit from "express-rate-limit";
+import {Strategy, StrategyOptions} from "passport-jwt";
 import morgan from "morgan";
 import compression from "compression";
+import {createServer} from "http";
 import logger from "./logger";
 import env from "./env";
-import {JwtError} from "./encrypt";
+import {isTokenType, JwtError} from "./encrypt";
+import {TokenService} from "./token";
+import {StoredFile} from "./upload";
+import {jwtFromRequest, sessionRefresher} from "./session";
+import {createRateLimiter, RateLimitOptions} from "./rate-limit";
+import {checkReadiness, isShuttingDown, registerResource} from "./lifecycle";
+import {currentContext, REQUEST_ID_HEADER, runWithContext, updateContext} from "./context";
+import {generateOpenApiDocument, OpenApiOptions, openApiRouters} from "./openapi";
 
 type ResponseData = object;
 type RequestData = {
     param: any;
     query: any;
     body: any;
+    token?: JwtPayload;
+    files?: Record<string, StoredFile[]>;
+    sessionToken?: string;
 }
 
 declare global {
@@ -45,6 +55,30 @@ export type ExpressRouter = {
     method: HttpMethod;
     path: string;
     middlewares: Middleware[];
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    rateLimit?: RateLimitOptions;
+}
+
+export interface MiddlewareMetadata {
+    param?: Record<string, Joi.AnySchema>;
+    query?: Record<string, Joi.AnySchema>;
+    body?: Record<string, Joi.AnySchema>;
+    response?: Record<string, Joi.AnySchema>;
+    files?: string[];
+    authorization?: boolean;
+}
+
+const middlewareMetadata = new WeakMap<Middleware, MiddlewareMetadata>();
+
+export function withMetadata(middleware: Middleware, metadata: MiddlewareMetadata) {
+    middlewareMetadata.set(middleware, { ...middlewareMetadata.get(middleware), ...metadata });
+    return middleware;
+}
+
+export function getMiddlewareMetadata(middleware: Middleware) {
+    return middlewareMetadata.get(middleware);
 }
 
 export abstract class HttpServerException extends Error {
@@ -83,9 +117,9 @@ export class ServerErrorException extends HttpServerException {
 
 export type ExceptionTransform = (error: Error) => HttpServerException | undefined;
 
-const wrongParameterExceptionTransform: ExceptionTransform = function (error: Error) {
+export const wrongParameterExceptionTransform: ExceptionTransform = function (error: Error) {
     if (error instanceof Joi.ValidationError) {
-        return new WrongParameterException("ValidationError:" + JSON.stringify(error.details));
+        return new WrongParameterException("ValidationError:" + JSON.stringify(error.details), { cause: error });
     }
     if (
         error instanceof JwtError ||
@@ -111,11 +145,16 @@ export function exceptionTransformMiddleware(transform?: ExceptionTransform): Er
 type ExceptionHandler = (error: Error, response: Response) => void;
 
 function expandExceptionHandler(exceptionHandler?: ExceptionHandler): ErrorRequestHandler {
-    return function (error: Error, _request: Request, response: Response, next: NextFunction) {
-        if (exceptionHandler) {
-            exceptionHandler(error, response);
+    return function (error: Error, request: Request, response: Response, next: NextFunction) {
+        // Only a response already on its way goes to express, which has to cut its socket.
+        if (!exceptionHandler || response.headersSent) {
+            next(error);
+            return;
         }
-        next(error);
+        if (!(error instanceof HttpServerException)) {
+            logger.error(`${request.method} ${request.originalUrl} failed: ${error.stack || error.message}`);
+        }
+        exceptionHandler(error, response);
     };
 }
 
@@ -140,32 +179,32 @@ export function asyncMiddleware(handler: (request: Request, response: Response)
 }
 
 export function validParam(schema: Record<string, Joi.AnySchema>): Middleware {
-    return asyncMiddleware(async function (request, _response) {
+    return withMetadata(asyncMiddleware(async function (request, _response) {
         request.data.param = Joi.attempt(request.params, Joi.object(schema), { allowUnknown: true });
-    });
+    }), { param: schema });
 }
 
 export function validQuery(schema: Record<string, Joi.AnySchema>): Middleware {
-    return asyncMiddleware(async function (request, _response) {
+    return withMetadata(asyncMiddleware(async function (request, _response) {
         request.data.query = Joi.attempt(request.query, Joi.object(schema), { allowUnknown: true });
-    });
+    }), { query: schema });
 }
 
 export function validBody(schema: Record<string, Joi.AnySchema>): Middleware {
-    return asyncMiddleware(async function (request, _response) {
+    return withMetadata(asyncMiddleware(async function (request, _response) {
         request.data.body = Joi.attempt(request.body, Joi.object(schema), { allowUnknown: true });
-    })
+    }), { body: schema })
 }
 
 export function validResponseAndSend(schema: Record<string, Joi.AnySchema>): Middleware {
-    return asyncMiddleware(async function (_request, response) {
+    return withMetadata(asyncMiddleware(async function (_request, response) {
         try {
             response.data = Joi.attempt(response.data, Joi.object(schema));
             response.send(response.data);
         } catch (error) {
             throw new ServerErrorException(`ResponseValidationError: ${error.details}`);
         }
-    });
+    }), { response: schema });
 }
 
 export function dataInitializer(request: Request, response: Response, next: NextFunction) {
@@ -174,8 +213,34 @@ export function dataInitializer(request: Request, response: Response, next: Next
     next();
 }
 
+export function requestContextInitializer(request: Request, response: Response, next: NextFunction) {
+    const incoming = request.header(REQUEST_ID_HEADER);
+    const requestId = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : undefined;
+    runWithContext({ requestId, route: `${request.method} ${request.path}` }, function () {
+        response.setHeader(REQUEST_ID_HEADER, currentContext()!.requestId);
+        next();
+    });
+}
+
+function skipMiddleware(_request: Request, _response: Response, next: NextFunction) {
+    next();
+}
+
+export function drainingConnectionHandler(_request: Request, response: Response, next: NextFunction) {
+    if (isShuttingDown()) {
+        response.setHeader("Connection", "close");
+    }
+    next();
+}
+
 export const file = multer();
-export const hasAuthorization: Middleware = passport.authenticate("jwt", { session: false });
+export const hasAuthorization: Middleware = withMetadata(
+    function (request: Request, response: Response, next: NextFunction) {
+        const authenticator: PassportStatic = request.app.get("passport") || passport;
+        authenticator.authenticate("jwt", { session: false })(request, response, next);
+    },
+    { authorization: true },
+);
 
 export interface StartupOptions {
     authenticationFindUserLogic?: (payload: JwtPayload) => Promise<unknown>;
@@ -183,10 +248,21 @@ export interface StartupOptions {
     expandExceptionTransform?: ExceptionTransform;
     rewriteExceptionHandler?: ExceptionHandler;
     preSetting?: (app: express.Express) => void;
+    beforeListen?: () => Promise<void>;
+    /** Applies pending migrations before `beforeListen`, the server does not listen if they fail. */
+    migrate?: boolean;
+    port?: number;
+    rateLimit?: false | RateLimitOptions;
+    healthChecks?: false | { livenessPath?: string; readinessPath?: string };
+    openapi?: OpenApiOptions;
+    /** Enables revocation checks, only tokens issued by this service are accepted once set. */
+    tokenService?: TokenService;
 }
 
-export function startup(routers: ExpressRouter[], options?: StartupOptions) {
+export function createApp(routers: ExpressRouter[], options?: StartupOptions) {
     const app = express();
+    const authenticator = new Passport();
+    app.set("passport", authenticator);
 
     if (options?.preSetting) {
         options.preSetting(app);
@@ -195,46 +271,108 @@ export function startup(routers: ExpressRouter[], options?: StartupOptions) {
     if (options?.authenticationFindUserLogic) {
         const jwtStrategyOptions: StrategyOptions = {
             secretOrKey: env.JWT_SECRET,
-            jwtFromRequest: env.SERVER_JWT_FROM === "BearerToken"
-                ? ExtractJwt.fromAuthHeaderAsBearerToken() : ExtractJwt.fromUrlQueryParameter("token"),
+            jwtFromRequest,
+            passReqToCallback: true,
         };
-        const strategy = new Strategy(jwtStrategyOptions, function (payload, next) {
+        const strategy = new Strategy(jwtStrategyOptions, function (request: Request, payload: JwtPayload, next) {
+            if (!isTokenType(payload, "access")) {
+                next(new UnauthorizedException("Wrong token type"), false);
+                return;
+            }
+            request.data.token = payload;
+            updateContext({ userId: payload.sub });
             if (options.authenticationFindUserLogic) {
-                options.authenticationFindUserLogic(payload)
+                const findUser = options.authenticationFindUserLogic;
+                Promise.resolve(options.tokenService?.isAccessTokenRevoked(payload))
+                    .then(revoked => revoked ? Promise.reject(new UnauthorizedException("Token has been revoked")) : payload)
+                    .then(payload => findUser(payload))
                     .then(user => user || Promise.reject(new NotFoundException("User does not exist")))
                     .then(user => next(null, user))
                     .catch(err => next(err, false));
             }
         });
-        passport.use(strategy);
+        authenticator.use(strategy);
     }
 
-    const requestLogger = morgan(":method :url :status :res[content-length] - :response-time ms", {
+    morgan.token("request-id", (_request, response) => response.getHeader(REQUEST_ID_HEADER)?.toString());
+    const requestLogger = morgan(":request-id :method :url :status :res[content-length] - :response-time ms", {
         stream: {
             write: message => logger.http(message),
         },
     });
 
+    if (options?.healthChecks !== false) {
+        app.get(options?.healthChecks?.livenessPath || "/healthz", function (_request, response) {
+            response.send({ status: "ok" });
+        });
+        app.get(options?.healthChecks?.readinessPath || "/readyz", function (_request, response, next) {
+            checkReadiness()
+                .then(readiness => response.status(readiness.ready ? 200 : 503).send(readiness))
+                .catch(next);
+        });
+    }
+
     app
-        .use(rateLimit({ windowMs: 1000, limit: 20 }))
+        .use(drainingConnectionHandler)
+        .use(requestContextInitializer)
+        .use(options?.rateLimit === false ? skipMiddleware : createRateLimiter("global", options?.rateLimit))
         .use(requestLogger)
         .use(compression())
         .use(urlencoded({ extended: true }))
         .use(json())
-        .use(passport.initialize())
-        .use(dataInitializer);
+        .use(authenticator.initialize())
+        .use(dataInitializer)
+        .use(env.SERVER_JWT_FROM === "Cookie" ? sessionRefresher(options?.tokenService) : skipMiddleware);
 
     options?.expandMiddlewares?.forEach(middleware => app.use(middleware));
 
+    if (options?.openapi) {
+        routers = [...routers, ...openApiRouters(generateOpenApiDocument(routers, options.openapi), options.openapi)];
+    }
+
     const router = routers.reduce(
         (router, er) =>
-            Reflect.get(router, er.method.toLowerCase()).bind(router)(er.path, ...er.middlewares),
+            Reflect.get(router, er.method.toLowerCase()).bind(router)(
+                er.path,
+                ...(er.rateLimit ? [createRateLimiter(`${er.method} ${er.path}`, er.rateLimit)] : []),
+                ...er.middlewares,
+            ),
         Router(),
     );
 
     return app.use(router)
         .use(exceptionTransformMiddleware(wrongParameterExceptionTransform))
         .use(exceptionTransformMiddleware(options?.expandExceptionTransform))
-        .use(expandExceptionHandler(options?.rewriteExceptionHandler || defaultExceptionHandler))
-        .listen(env.SERVER_PORT, () => logger.info(`Success running on port ${env.SERVER_PORT}`));
+        .use(expandExceptionHandler(options?.rewriteExceptionHandler || defaultExceptionHandler));
+}
+
+export function startup(routers: ExpressRouter[], options?: StartupOptions) {
+    const server = createServer(createApp(routers, options));
+    const port = options?.port ?? env.SERVER_PORT;
+    registerResource({
+        name: "http server",
+        phase: "server",
+        close: () => new Promise<void>(function (resolve, reject) {
+            server.close(error => error ? reject(error) : resolve());
+            server.closeIdleConnections();
+        }),
+    });
+
+    async function prepare() {
+        if (options?.migrate) {
+            // Loaded on demand, importing it opens the database pool.
+            const { migrateLatest } = await import("./migration");
+            await migrateLatest();
+        }
+        await options?.beforeListen?.();
+    }
+
+    prepare()
+        .then(() => server.listen(port, () => logger.info(`Success running on port ${port}`)))
+        .catch(function (error) {
+            logger.error(`Startup aborted: ${error.message}`);
+            process.exit(1);
+        });
+
+    return server;
 }
\ No newline at end of file
@@ -2,13 +2,18 @@ import {
     asyncMiddleware,
     defaultExceptionHandler,
     ExpressRouter,
+    getMiddlewareMetadata,
     HttpServerException, Middleware, ServerErrorException,
     startup,
-    StartupOptions
+    StartupOptions,
+    withMetadata
 } from "./server-http";
-import express, {Response} from "express";
+import express, {NextFunction, Request, Response} from "express";
 import {engine} from "express-handlebars";
 import Joi from "joi";
+import {createI18n, I18n, I18nOptions} from "./i18n";
+import {CSRF_FIELD, csrfCookie, readCookie, verifyCsrf} from "./session";
+import Handlebars, {HelperOptions, SafeString} from "handlebars";
 
 declare global {
     namespace Express {
@@ -23,23 +28,68 @@ interface WebsiteStartupOptions extends StartupOptions {
     apiPrefix?: string;
     viewsPath?: string;
     staticFolder?: string;
+    i18n?: I18nOptions;
+    csrf?: boolean;
 }
 
+export interface FlashMessage {
+    type: string;
+    message: string;
+}
+
+export interface FormOptions {
+    layout?: string;
+    omitValues?: string[];
+}
+
+const FLASH_COOKIE = "flash";
+const pendingFlashes = new WeakMap<Response, FlashMessage[]>();
+
+const csrfHelpers = {
+    csrfField(options: HelperOptions) {
+        const token = Handlebars.escapeExpression(options.data?.root?.csrfToken || "");
+        return new SafeString(`<input type="hidden" name="${CSRF_FIELD}" value="${token}">`);
+    },
+};
+
 export function startWebsite(routers: ExpressRouter[], options?: WebsiteStartupOptions) {
+    const i18n = options?.i18n ? createI18n(options.i18n) : undefined;
+
+    if (options?.csrf) {
+        // validFiles checks the token itself once the multipart body has been parsed.
+        routers = routers.map(router => router.method === "GET" || router.middlewares.some(isUpload)
+            ? router
+            : { ...router, middlewares: [verifyCsrf, ...router.middlewares] });
+    }
+
     return startup(routers, {
         ...options,
         expandMiddlewares: [
-            asyncMiddleware(async function (_request, response) {
-                response.status(404).render("404");
+            asyncMiddleware(async function (request, response) {
+                response.status(404).render("404", { locale: request.locale });
             }),
         ],
         preSetting(app) {
-            app.engine("handlebars", engine());
+            app.engine("handlebars", engine({ helpers: { ...i18n?.helpers, ...(options?.csrf ? csrfHelpers : {}) } }));
             app.set("view engine", "handlebars");
             app.set("views", options?.viewsPath || "./views");
             app.use(express.static(options?.staticFolder || "public"));
+            app.set("i18n", i18n);
+            app.set("csrf", !!options?.csrf);
+            app.use(flashMessages);
+            if (i18n) {
+                app.use(i18n.detectLocale);
+            }
+            if (options?.csrf) {
+                app.use(csrfCookie);
+            }
         },
         rewriteExceptionHandler(error: Error, response: Response) {
+            const locale = response.req.locale;
+            if (i18n && locale) {
+                error = i18n.localizeException(locale, error);
+            }
+
             if (options?.apiPrefix) {
                 const isApiRequest =
                     response.req.originalUrl.startsWith(options.apiPrefix) ||
@@ -54,19 +104,23 @@ export function startWebsite(routers: ExpressRouter[], options?: WebsiteStartupO
             if (error instanceof HttpServerException) {
                 response
                     .status(error.getHttpResponseStatusCode())
-                    .render(error.getHttpResponseStatusCode().toString());
+                    .render(error.getHttpResponseStatusCode().toString(), { locale, message: error.message });
             } else {
                 response
                     .status(500)
-                    .render("500");
+                    .render("500", { locale });
             }
         },
     });
 }
 
+function isUpload(middleware: Middleware) {
+    return !!getMiddlewareMetadata(middleware)?.files;
+}
+
 export function render(view: string, layout?: string): Middleware {
     return asyncMiddleware(async function (request, response) {
-        response.render(view, { user: request.user, layout });
+        response.render(view, { user: request.user, locale: request.locale, layout });
     });
 }
 
@@ -76,9 +130,67 @@ export function validRender(schema: Record<string, Joi.AnySchema>): Middleware {
             response.data = Joi.attempt(response.data, Joi.object(schema), { allowUnknown: true });
             response.view = Joi.attempt(response.view, Joi.string().required());
             response.layout = Joi.attempt(response.layout, Joi.string());
-            response.render(response.view, { user: request.user, data: response.data, layout: response.layout });
+            response.render(response.view, {
+                user: request.user,
+                locale: request.locale,
+                data: response.data,
+                layout: response.layout,
+            });
         } catch (error) {
             throw new ServerErrorException(`RenderViewError: ${error.details}`);
         }
     });
-}
\ No newline at end of file
+}
+export function flash(response: Response, type: string, message: string) {
+    const messages = [...(pendingFlashes.get(response) || []), { type, message }];
+    pendingFlashes.set(response, messages);
+    response.cookie(FLASH_COOKIE, JSON.stringify(messages), { httpOnly: true, sameSite: "lax", path: "/" });
+}
+
+export function flashMessages(request: Request, response: Response, next: NextFunction) {
+    const cookie = readCookie(request.headers.cookie, FLASH_COOKIE);
+    response.locals.flash = [];
+    if (cookie) {
+        response.clearCookie(FLASH_COOKIE, { httpOnly: true, sameSite: "lax", path: "/" });
+        try {
+            response.locals.flash = Joi.attempt(JSON.parse(cookie), Joi.array().items(Joi.object({
+                type: Joi.string().required(),
+                message: Joi.string().required(),
+            })));
+        } catch (error) {
+            response.locals.flash = [];
+        }
+    }
+    next();
+}
+
+function fieldErrors(request: Request, error: Joi.ValidationError) {
+    const i18n: I18n | undefined = request.app.get("i18n");
+    return error.details.reduce<Record<string, string>>(function (errors, detail) {
+        const field = detail.path.join(".");
+        if (!errors[field]) {
+            errors[field] = i18n && request.locale ? i18n.localizeValidationDetail(request.locale, detail) : detail.message;
+        }
+        return errors;
+    }, {});
+}
+
+export function validForm(view: string, schema: Record<string, Joi.AnySchema>, options?: FormOptions): Middleware {
+    return withMetadata(function (request, response, next) {
+        const { value, error } = Joi.object(schema).validate(request.body, { allowUnknown: true, abortEarly: false });
+        if (!error) {
+            request.data.body = value;
+            next();
+            return;
+        }
+
+        const omitted = [CSRF_FIELD, ...(options?.omitValues || [])];
+        const values = Object.fromEntries(Object.entries(request.body || {}).filter(([key]) => !omitted.includes(key)));
+        response.status(422).render(view, {
+            user: request.user,
+            locale: request.locale,
+            layout: options?.layout,
+            form: { values, errors: fieldErrors(request, error) },
+        });
+    }, { body: schema });
+}
@@ -1,4 +1,155 @@
-import {Server} from "socket.io";
+import {Server as HttpServer} from "http";
+import {Namespace, Server, ServerOptions, Socket} from "socket.io";
+import {JwtPayload, verify} from "jsonwebtoken";
+import Joi from "joi";
 import env from "./env";
+import logger from "./logger";
+import {TokenService} from "./token";
+import {isTokenType} from "./encrypt";
+import {ACCESS_TOKEN_COOKIE, readCookie} from "./session";
+import {
+    ExceptionTransform,
+    HttpServerException,
+    NotFoundException,
+    UnauthorizedException,
+    wrongParameterExceptionTransform,
+} from "./server-http";
 
-// const io = new Server(env.SERVER_PORT, { cors: { origin: "*"} });
\ No newline at end of file
+export type WebsocketAck = (response: { status: number; data?: unknown; message?: string }) => void;
+
+export type WebsocketEvent = {
+    event: string;
+    schema?: Record<string, Joi.AnySchema>;
+    handler: (socket: Socket, data: any, io: Namespace) => Promise<unknown>;
+}
+
+export type WebsocketNamespace = {
+    namespace: string;
+    requireAuthorization?: boolean;
+    rooms?: (socket: Socket) => Promise<string[]> | string[];
+    onConnection?: (socket: Socket, io: Namespace) => Promise<void>;
+    events: WebsocketEvent[];
+}
+
+export interface WebsocketStartupOptions {
+    authenticationFindUserLogic?: (payload: JwtPayload) => Promise<unknown>;
+    expandExceptionTransform?: ExceptionTransform;
+    serverOptions?: Partial<ServerOptions>;
+    tokenService?: TokenService;
+}
+
+function extractToken(socket: Socket) {
+    if (env.SERVER_JWT_FROM === "QueryParameter") {
+        const token = socket.handshake.query.token;
+        return typeof token === "string" ? token : undefined;
+    }
+    if (env.SERVER_JWT_FROM === "Cookie") {
+        return readCookie(socket.handshake.headers.cookie, ACCESS_TOKEN_COOKIE);
+    }
+
+    const authorization = socket.handshake.auth?.token || socket.handshake.headers.authorization;
+    if (typeof authorization !== "string") {
+        return undefined;
+    }
+    return authorization.startsWith("Bearer ") ? authorization.substring("Bearer ".length) : authorization;
+}
+
+function transformException(error: Error, transform?: ExceptionTransform) {
+    if (error instanceof HttpServerException) {
+        return error;
+    }
+    return wrongParameterExceptionTransform(error) || transform?.(error);
+}
+
+function sendError(error: Error, ack?: WebsocketAck) {
+    if (error instanceof HttpServerException) {
+        ack?.({ status: error.getHttpResponseStatusCode(), message: error.message });
+    } else {
+        logger.error(error.stack || error.message);
+        ack?.({
+            status: 500,
+            message: `ServerError: ${error.message}, please make contact with backend developer!`,
+        });
+    }
+}
+
+function authenticationMiddleware(options?: WebsocketStartupOptions) {
+    return function (socket: Socket, next: (error?: Error) => void) {
+        // Socket.IO runs middlewares without a catch, anything thrown here would crash the process.
+        let payload: JwtPayload;
+        try {
+            const token = extractToken(socket);
+            if (!token) {
+                next(new UnauthorizedException("Missing token"));
+                return;
+            }
+            payload = verify(token, env.JWT_SECRET) as JwtPayload;
+            if (!isTokenType(payload, "access")) {
+                next(new UnauthorizedException("Wrong token type"));
+                return;
+            }
+        } catch (error) {
+            next(new UnauthorizedException(error.message));
+            return;
+        }
+
+        Promise.resolve(options?.tokenService?.isAccessTokenRevoked(payload))
+            .then(revoked => revoked ? Promise.reject(new UnauthorizedException("Token has been revoked")) : payload)
+            .then(payload => options?.authenticationFindUserLogic ? options.authenticationFindUserLogic(payload) : payload)
+            .then(user => user || Promise.reject(new NotFoundException("User does not exist")))
+            .then(user => {
+                socket.data.user = user;
+                next();
+            })
+            .catch(error => next(error));
+    };
+}
+
+function registerEvent(socket: Socket, io: Namespace, event: WebsocketEvent, options?: WebsocketStartupOptions) {
+    socket.on(event.event, function (data: unknown, ack?: WebsocketAck) {
+        if (typeof ack !== "function") {
+            ack = undefined;
+        }
+
+        async function handle() {
+            const payload = event.schema
+                ? Joi.attempt(data, Joi.object(event.schema), { allowUnknown: true })
+                : data;
+            return event.handler(socket, payload, io);
+        }
+
+        handle()
+            .then(result => ack?.({ status: 200, data: result }))
+            .catch(error => sendError(transformException(error, options?.expandExceptionTransform) || error, ack));
+    });
+}
+
+export function startWebsocket(server: HttpServer, namespaces: WebsocketNamespace[], options?: WebsocketStartupOptions) {
+    const io = new Server(server, options?.serverOptions);
+
+    namespaces.forEach(function (definition) {
+        const namespace = io.of(definition.namespace);
+
+        if (definition.requireAuthorization) {
+            namespace.use(authenticationMiddleware(options));
+        }
+
+        namespace.on("connection", function (socket) {
+            definition.events.forEach(event => registerEvent(socket, namespace, event, options));
+
+            !async function () {
+                if (definition.rooms) {
+                    await socket.join(await definition.rooms(socket));
+                }
+                await definition.onConnection?.(socket, namespace);
+            }().catch(function (error) {
+                logger.error(`Websocket connection setup failed: ${error.message}`);
+                socket.disconnect(true);
+            });
+        });
+    });
+
+    logger.info(`Websocket attached with namespaces: ${namespaces.map(n => n.namespace).join(", ")}`);
+
+    return io;
+}
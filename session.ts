@@ -0,0 +1,160 @@
+import {createHmac, randomBytes, timingSafeEqual} from "crypto";
+import {CookieOptions, NextFunction, Request, Response} from "express";
+import {JwtPayload, verify} from "jsonwebtoken";
+import {ExtractJwt} from "passport-jwt";
+import env from "./env";
+import logger from "./logger";
+import {isTokenType, signToken} from "./encrypt";
+import {TokenService} from "./token";
+import {Middleware, NoPermissionException} from "./server-http";
+
+export const ACCESS_TOKEN_COOKIE = "access_token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+export const CSRF_COOKIE = "csrf_secret";
+export const CSRF_FIELD = "_csrf";
+export const CSRF_HEADER = "x-csrf-token";
+
+const safeMethods = ["GET", "HEAD", "OPTIONS"];
+
+export function readCookie(cookieHeader: string | undefined, name: string) {
+    const cookie = (cookieHeader || "")
+        .split(";")
+        .map(part => part.trim().split("="))
+        .find(([key]) => key === name);
+    if (!cookie) {
+        return undefined;
+    }
+    try {
+        return decodeURIComponent(cookie.slice(1).join("="));
+    } catch (error) {
+        // Malformed percent-encoding, treated as absent like cookie-parser does.
+        return undefined;
+    }
+}
+
+const extractors = {
+    BearerToken: ExtractJwt.fromAuthHeaderAsBearerToken(),
+    QueryParameter: ExtractJwt.fromUrlQueryParameter("token"),
+    Cookie: (request: Request) =>
+        request.data?.sessionToken || readCookie(request.headers.cookie, ACCESS_TOKEN_COOKIE) || null,
+};
+
+export function jwtFromRequest(request: Request) {
+    return extractors[env.SERVER_JWT_FROM](request);
+}
+
+function cookieOptions(): CookieOptions {
+    return {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: env.NODE_ENV === "production",
+        path: "/",
+        maxAge: env.JWT_EXPIRES,
+    };
+}
+
+export function setSessionCookies(response: Response, tokens: { accessToken: string; refreshToken: string }) {
+    response.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, cookieOptions());
+    response.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, cookieOptions());
+}
+
+export function clearSessionCookies(response: Response) {
+    const { maxAge, ...options } = cookieOptions();
+    response.clearCookie(ACCESS_TOKEN_COOKIE, options);
+    response.clearCookie(REFRESH_TOKEN_COOKIE, options);
+}
+
+export async function signOut(request: Request, response: Response, tokenService?: TokenService) {
+    const refreshToken = readCookie(request.headers.cookie, REFRESH_TOKEN_COOKIE);
+    clearSessionCookies(response);
+    if (tokenService && refreshToken) {
+        await tokenService.revokeToken(refreshToken).catch(error => logger.warn(`Sign out revoke failed: ${error.message}`));
+    }
+}
+
+function isValidToken(token: string) {
+    try {
+        return isTokenType(verify(token, env.JWT_SECRET) as JwtPayload, "access");
+    } catch (error) {
+        return false;
+    }
+}
+
+export function sessionRefresher(tokenService?: TokenService): Middleware {
+    return function (request: Request, response: Response, next: NextFunction) {
+        const accessToken = readCookie(request.headers.cookie, ACCESS_TOKEN_COOKIE);
+        const refreshToken = readCookie(request.headers.cookie, REFRESH_TOKEN_COOKIE);
+        if (!refreshToken || (accessToken && isValidToken(accessToken))) {
+            next();
+            return;
+        }
+
+        async function refresh() {
+            const previous = accessToken
+                ? verify(accessToken, env.JWT_SECRET, { ignoreExpiration: true }) as JwtPayload
+                : undefined;
+            const roles = previous?.rle || "";
+            const permissions = previous?.prm || "";
+            if (tokenService) {
+                return tokenService.refreshToken(refreshToken!, roles, permissions);
+            }
+            const { sub } = verify(refreshToken!, env.JWT_SECRET) as JwtPayload;
+            return signToken(sub || "", roles, permissions, refreshToken);
+        }
+
+        refresh()
+            .then(function (tokens) {
+                setSessionCookies(response, tokens);
+                request.data.sessionToken = tokens.accessToken;
+            })
+            .catch(function (error) {
+                logger.debug(`Session refresh failed: ${error.message}`);
+                clearSessionCookies(response);
+            })
+            .finally(() => next());
+    };
+}
+
+function csrfToken(secret: string) {
+    return createHmac("sha256", env.JWT_SECRET).update(`csrf:${secret}`).digest("base64url");
+}
+
+export function csrfCookie(request: Request, response: Response, next: NextFunction) {
+    let secret = readCookie(request.headers.cookie, CSRF_COOKIE);
+    if (!secret) {
+        secret = randomBytes(24).toString("base64url");
+        const { maxAge, ...options } = cookieOptions();
+        response.cookie(CSRF_COOKIE, secret, options);
+    }
+    response.locals.csrfToken = csrfToken(secret);
+    next();
+}
+
+/** Throws unless the request carries the CSRF token, the body has to be parsed already. */
+export function assertCsrf(request: Request) {
+    if (safeMethods.includes(request.method)) {
+        return;
+    }
+
+    const secret = readCookie(request.headers.cookie, CSRF_COOKIE);
+    const submitted = request.body?.[CSRF_FIELD] || request.header(CSRF_HEADER);
+    if (!secret || typeof submitted !== "string") {
+        throw new NoPermissionException("Missing CSRF token");
+    }
+
+    const expected = Buffer.from(csrfToken(secret));
+    const actual = Buffer.from(submitted);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new NoPermissionException("Invalid CSRF token");
+    }
+}
+
+export function verifyCsrf(request: Request, _response: Response, next: NextFunction) {
+    try {
+        assertCsrf(request);
+    } catch (error) {
+        next(error);
+        return;
+    }
+    next();
+}
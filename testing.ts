@@ -0,0 +1,110 @@
+import {AddressInfo} from "net";
+import {createServer, Server} from "http";
+import axios, {Method} from "axios";
+import express from "express";
+import {JwtPayload} from "jsonwebtoken";
+import env from "./env";
+import {signToken} from "./encrypt";
+import {ACCESS_TOKEN_COOKIE} from "./session";
+import {TokenService} from "./token";
+
+export interface TestRequestOptions {
+    query?: Record<string, unknown>;
+    body?: unknown;
+    headers?: Record<string, string>;
+    token?: string;
+}
+
+export interface TestResponse<T = any> {
+    status: number;
+    headers: Record<string, unknown>;
+    data: T;
+}
+
+export function mintToken(userId: string, roles: string | string[] = [], permissions: string | string[] = []) {
+    return signToken(userId, roles, permissions).accessToken;
+}
+
+/** For apps started with a tokenService, which refuses tokens minted by mintToken. */
+export async function mintServiceToken(
+    tokenService: TokenService,
+    userId: string,
+    roles: string | string[] = [],
+    permissions: string | string[] = [],
+) {
+    return (await tokenService.signToken(userId, roles, permissions)).accessToken;
+}
+
+export function stubUserLogic(users: Record<string, unknown> | ((payload: JwtPayload) => unknown)) {
+    return async function (payload: JwtPayload) {
+        if (typeof users === "function") {
+            return users(payload);
+        }
+        return payload.sub ? users[payload.sub] : undefined;
+    };
+}
+
+export function testClient(app: express.Express) {
+    let server: Server | undefined;
+    let baseUrl: Promise<string> | undefined;
+
+    function listen() {
+        if (!baseUrl) {
+            server = createServer(app);
+            const listening = server;
+            baseUrl = new Promise(function (resolve, reject) {
+                listening.once("error", reject);
+                listening.listen(0, "127.0.0.1", function () {
+                    const address = listening.address() as AddressInfo;
+                    resolve(`http://127.0.0.1:${address.port}`);
+                });
+            });
+        }
+        return baseUrl;
+    }
+
+    async function request<T = any>(method: Method, path: string, options?: TestRequestOptions): Promise<TestResponse<T>> {
+        const headers = { ...options?.headers };
+        const params = { ...options?.query };
+        if (options?.token) {
+            if (env.SERVER_JWT_FROM === "QueryParameter") {
+                params.token = options.token;
+            } else if (env.SERVER_JWT_FROM === "Cookie") {
+                headers.Cookie = `${ACCESS_TOKEN_COOKIE}=${encodeURIComponent(options.token)}`;
+            } else {
+                headers.Authorization = `Bearer ${options.token}`;
+            }
+        }
+
+        const response = await axios({
+            baseURL: await listen(),
+            url: path,
+            method,
+            params,
+            data: options?.body,
+            headers,
+            validateStatus: () => true,
+        });
+
+        return { status: response.status, headers: response.headers, data: response.data };
+    }
+
+    async function close() {
+        if (!server) {
+            return;
+        }
+        const listening = server;
+        server = undefined;
+        baseUrl = undefined;
+        await new Promise<void>((resolve, reject) => listening.close(error => error ? reject(error) : resolve()));
+    }
+
+    return {
+        request,
+        get: <T = any>(path: string, options?: TestRequestOptions) => request<T>("GET", path, options),
+        post: <T = any>(path: string, options?: TestRequestOptions) => request<T>("POST", path, options),
+        put: <T = any>(path: string, options?: TestRequestOptions) => request<T>("PUT", path, options),
+        delete: <T = any>(path: string, options?: TestRequestOptions) => request<T>("DELETE", path, options),
+        close,
+    };
+}
@@ -0,0 +1,239 @@
+import knex from "knex";
+import {JwtPayload, sign, verify} from "jsonwebtoken";
+import {v4 as uuid} from "uuid";
+import datetime from "./date";
+import env from "./env";
+import {encodeClaims, isTokenType, JwtError} from "./encrypt";
+
+export interface RefreshTokenRecord {
+    jti: string;
+    familyId: string;
+    userId: string;
+    expiresAt: Date;
+    rotatedAt?: Date;
+    revokedAt?: Date;
+}
+
+export interface TokenStore {
+    save(record: RefreshTokenRecord): Promise<void>;
+    find(jti: string): Promise<RefreshTokenRecord | undefined>;
+    markRotated(jti: string): Promise<boolean>;
+    revokeFamily(familyId: string): Promise<void>;
+    revokeUser(userId: string): Promise<void>;
+    isFamilyRevoked(familyId: string): Promise<boolean>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+    private readonly records = new Map<string, RefreshTokenRecord>();
+
+    async save(record: RefreshTokenRecord) {
+        this.records.set(record.jti, { ...record });
+    }
+
+    async find(jti: string) {
+        return this.records.get(jti);
+    }
+
+    async markRotated(jti: string) {
+        const record = this.records.get(jti);
+        if (!record || record.rotatedAt) {
+            return false;
+        }
+        record.rotatedAt = new Date();
+        return true;
+    }
+
+    async revokeFamily(familyId: string) {
+        this.records.forEach(function (record) {
+            if (record.familyId === familyId && !record.revokedAt) {
+                record.revokedAt = new Date();
+            }
+        });
+    }
+
+    async revokeUser(userId: string) {
+        this.records.forEach(function (record) {
+            if (record.userId === userId && !record.revokedAt) {
+                record.revokedAt = new Date();
+            }
+        });
+    }
+
+    async isFamilyRevoked(familyId: string) {
+        return [...this.records.values()].some(record => record.familyId === familyId && !!record.revokedAt);
+    }
+}
+
+export class KnexTokenStore implements TokenStore {
+    private readonly database: knex.Knex;
+    private readonly tableName: string;
+
+    constructor(database: knex.Knex, tableName: string = "refresh_tokens") {
+        this.database = database;
+        this.tableName = tableName;
+    }
+
+    async createTable() {
+        if (await this.database.schema.hasTable(this.tableName)) {
+            return;
+        }
+        await this.database.schema.createTable(this.tableName, function (table) {
+            table.string("jti", 36).primary();
+            table.string("family_id", 36).notNullable().index();
+            table.string("user_id").notNullable().index();
+            table.timestamp("expires_at").notNullable();
+            table.timestamp("rotated_at").nullable();
+            table.timestamp("revoked_at").nullable();
+        });
+    }
+
+    async save(record: RefreshTokenRecord) {
+        await this.database(this.tableName).insert({
+            jti: record.jti,
+            family_id: record.familyId,
+            user_id: record.userId,
+            expires_at: record.expiresAt,
+            rotated_at: record.rotatedAt || null,
+            revoked_at: record.revokedAt || null,
+        });
+    }
+
+    async find(jti: string) {
+        const row = await this.database(this.tableName).where("jti", jti).first();
+        if (!row) {
+            return undefined;
+        }
+        return {
+            jti: row.jti,
+            familyId: row.family_id,
+            userId: row.user_id,
+            expiresAt: new Date(row.expires_at),
+            rotatedAt: row.rotated_at ? new Date(row.rotated_at) : undefined,
+            revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+        };
+    }
+
+    async markRotated(jti: string) {
+        const updated = await this.database(this.tableName)
+            .where("jti", jti)
+            .whereNull("rotated_at")
+            .update({ rotated_at: new Date() });
+        return updated > 0;
+    }
+
+    async revokeFamily(familyId: string) {
+        await this.database(this.tableName)
+            .where("family_id", familyId)
+            .whereNull("revoked_at")
+            .update({ revoked_at: new Date() });
+    }
+
+    async revokeUser(userId: string) {
+        await this.database(this.tableName)
+            .where("user_id", userId)
+            .whereNull("revoked_at")
+            .update({ revoked_at: new Date() });
+    }
+
+    async isFamilyRevoked(familyId: string) {
+        const row = await this.database(this.tableName)
+            .where("family_id", familyId)
+            .whereNotNull("revoked_at")
+            .first("jti");
+        return !!row;
+    }
+}
+
+function timestamp(offset: number = 0) {
+    return Math.floor(datetime().tz().add(offset, "millisecond").toDate().getTime() / 1000);
+}
+
+export interface TokenServiceOptions {
+    /** How long a rotated refresh token may still be exchanged, covers parallel refreshes of one session. */
+    rotationGracePeriod?: number;
+}
+
+export function createTokenService(store: TokenStore, options?: TokenServiceOptions) {
+    const rotationGracePeriod = options?.rotationGracePeriod ?? 1000 * 10;
+
+    async function issue(userId: string, roles: string | string[], permissions: string | string[], familyId: string) {
+        const jti = uuid();
+        const now = timestamp();
+        const refreshExp = timestamp(env.JWT_EXPIRES);
+
+        await store.save({ jti, familyId, userId, expiresAt: new Date(refreshExp * 1000) });
+
+        const accessTokenPayload = {
+            sub: userId,
+            exp: timestamp(env.JWT_REFRESH_TIME),
+            iat: now,
+            rle: encodeClaims(roles),
+            prm: encodeClaims(permissions),
+            fam: familyId,
+            typ: "access",
+        };
+        const refreshTokenPayload = {
+            sub: userId,
+            exp: refreshExp,
+            iat: now,
+            jti,
+            fam: familyId,
+            typ: "refresh",
+        };
+
+        return {
+            accessToken: sign(accessTokenPayload, env.JWT_SECRET),
+            refreshToken: sign(refreshTokenPayload, env.JWT_SECRET),
+        };
+    }
+
+    async function signToken(userId: string, roles: string | string[], permissions: string | string[]) {
+        return issue(userId, roles, permissions, uuid());
+    }
+
+    async function refreshToken(refreshToken: string, roles: string | string[], permissions: string | string[]) {
+        const payload = verify(refreshToken, env.JWT_SECRET) as JwtPayload;
+        if (!isTokenType(payload, "refresh") || !payload.jti || !payload.sub) {
+            throw new JwtError("Wrong refresh token");
+        }
+
+        const record = await store.find(payload.jti);
+        if (!record || record.userId !== payload.sub) {
+            throw new JwtError("Wrong refresh token");
+        }
+        if (record.revokedAt) {
+            throw new JwtError("Refresh token has been revoked");
+        }
+        if (record.rotatedAt || !await store.markRotated(record.jti)) {
+            const rotatedAt = record.rotatedAt || (await store.find(record.jti))?.rotatedAt;
+            if (rotatedAt && Date.now() - rotatedAt.getTime() <= rotationGracePeriod) {
+                return issue(record.userId, roles, permissions, record.familyId);
+            }
+            await store.revokeFamily(record.familyId);
+            throw new JwtError("Refresh token reuse detected");
+        }
+
+        return issue(record.userId, roles, permissions, record.familyId);
+    }
+
+    async function revokeToken(token: string) {
+        const payload = verify(token, env.JWT_SECRET) as JwtPayload;
+        if (!payload.fam) {
+            throw new JwtError("Wrong token");
+        }
+        await store.revokeFamily(payload.fam);
+    }
+
+    async function revokeAllSessions(userId: string) {
+        await store.revokeUser(userId);
+    }
+
+    // Tokens without a family, e.g. from encrypt.signToken, cannot be revoked and are therefore refused.
+    async function isAccessTokenRevoked(payload: JwtPayload) {
+        return !payload.fam || await store.isFamilyRevoked(payload.fam);
+    }
+
+    return { signToken, refreshToken, revokeToken, revokeAllSessions, isAccessTokenRevoked };
+}
+
+export type TokenService = ReturnType<typeof createTokenService>;
@@ -0,0 +1,384 @@
+import {createHash, createHmac, timingSafeEqual} from "crypto";
+import {createReadStream, createWriteStream, promises as fs} from "fs";
+import {tmpdir} from "os";
+import {dirname, resolve, sep} from "path";
+import {Readable} from "stream";
+import {pipeline} from "stream/promises";
+import axios from "axios";
+import Joi from "joi";
+import multer from "multer";
+import {v4 as uuid} from "uuid";
+import env, {registerEnv} from "./env";
+import {
+    asyncMiddleware,
+    ExpressRouter,
+    Middleware,
+    NotFoundException,
+    UnauthorizedException,
+    withMetadata,
+    WrongParameterException,
+} from "./server-http";
+import {assertCsrf} from "./session";
+
+const uploadEnv = registerEnv("upload", {
+    UPLOAD_TEMP_DIRECTORY: Joi.string().default(tmpdir()),
+    UPLOAD_URL_SECRET: Joi.string().meta({ secret: true }).description("Signs download urls, defaults to JWT_SECRET"),
+});
+
+export interface StoredFile {
+    key: string;
+    field: string;
+    originalName: string;
+    mimeType: string;
+    size: number;
+}
+
+export interface FileMetadata {
+    mimeType: string;
+    originalName: string;
+}
+
+export interface StoredContent extends Partial<FileMetadata> {
+    content: Readable;
+}
+
+export interface StorageBackend {
+    put(key: string, content: Readable, size: number, metadata: FileMetadata): Promise<void>;
+    get(key: string): Promise<StoredContent>;
+    delete(key: string): Promise<void>;
+    signedUrl?(key: string, expiresIn: number): string;
+}
+
+export interface FileRule {
+    field: string;
+    maxCount?: number;
+    maxSize?: number;
+    mimeTypes?: string[];
+    required?: boolean;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = resolve(root);
+    }
+
+    private path(key: string) {
+        const path = resolve(this.root, key);
+        if (!path.startsWith(this.root + sep)) {
+            throw new WrongParameterException(`Invalid file key: ${key}`);
+        }
+        return path;
+    }
+
+    // Metadata lives in a sidecar file next to the content.
+    private metadataPath(key: string) {
+        return `${this.path(key)}.meta.json`;
+    }
+
+    async put(key: string, content: Readable, _size: number, metadata: FileMetadata) {
+        const path = this.path(key);
+        await fs.mkdir(dirname(path), { recursive: true });
+        await pipeline(content, createWriteStream(path));
+        await fs.writeFile(this.metadataPath(key), JSON.stringify(metadata));
+    }
+
+    async get(key: string): Promise<StoredContent> {
+        const path = this.path(key);
+        await fs.access(path).catch(() => Promise.reject(new NotFoundException("File does not exist")));
+        const metadata = await fs.readFile(this.metadataPath(key), "utf-8")
+            .then(content => JSON.parse(content) as FileMetadata)
+            .catch(() => undefined);
+        return { ...metadata, content: createReadStream(path) };
+    }
+
+    async delete(key: string) {
+        await fs.rm(this.path(key), { force: true });
+        await fs.rm(this.metadataPath(key), { force: true });
+    }
+}
+
+export interface S3StorageOptions {
+    endpoint: string;
+    bucket: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+const sha256 = (data: string) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+const encodeRfc3986 = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+export class S3CompatibleStorage implements StorageBackend {
+    private readonly options: S3StorageOptions;
+    private readonly endpoint: URL;
+
+    constructor(options: S3StorageOptions) {
+        this.options = options;
+        this.endpoint = new URL(options.endpoint);
+    }
+
+    private canonicalPath(key: string) {
+        const basePath = this.endpoint.pathname.replace(/\/$/, "");
+        return `${basePath}/${encodeRfc3986(this.options.bucket)}/${key.split("/").map(encodeRfc3986).join("/")}`;
+    }
+
+    private scope(date: Date) {
+        const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+        const dateStamp = amzDate.substring(0, 8);
+        return { amzDate, dateStamp, credentialScope: `${dateStamp}/${this.options.region}/s3/aws4_request` };
+    }
+
+    private signature(dateStamp: string, stringToSign: string) {
+        const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, dateStamp);
+        const signingKey = hmac(hmac(hmac(dateKey, this.options.region), "s3"), "aws4_request");
+        return createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+    }
+
+    private sign(method: string, key: string, headers: Record<string, string>) {
+        const { amzDate, dateStamp, credentialScope } = this.scope(new Date());
+        const allHeaders: Record<string, string> = {
+            ...headers,
+            "host": this.endpoint.host,
+            "x-amz-content-sha256": "UNSIGNED-PAYLOAD",
+            "x-amz-date": amzDate,
+        };
+        const names = Object.keys(allHeaders).map(name => name.toLowerCase()).sort();
+        const lowered = Object.fromEntries(Object.entries(allHeaders).map(([name, value]) => [name.toLowerCase(), value]));
+        const canonicalHeaders = names.map(name => `${name}:${lowered[name].trim()}\n`).join("");
+        const signedHeaders = names.join(";");
+        const canonicalRequest = [
+            method, this.canonicalPath(key), "", canonicalHeaders, signedHeaders, "UNSIGNED-PAYLOAD",
+        ].join("\n");
+        const stringToSign = ["AWS4-HMAC-SHA256", amzDate, credentialScope, sha256(canonicalRequest)].join("\n");
+
+        return {
+            ...allHeaders,
+            "authorization": `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${credentialScope}, ` +
+                `SignedHeaders=${signedHeaders}, Signature=${this.signature(dateStamp, stringToSign)}`,
+        };
+    }
+
+    private url(key: string) {
+        return `${this.endpoint.origin}${this.canonicalPath(key)}`;
+    }
+
+    async put(key: string, content: Readable, size: number, metadata: FileMetadata) {
+        await axios({
+            url: this.url(key),
+            method: "PUT",
+            data: content,
+            headers: this.sign("PUT", key, {
+                "content-length": size.toString(),
+                "content-type": metadata.mimeType,
+                "x-amz-meta-original-name": encodeURIComponent(metadata.originalName),
+            }),
+            maxBodyLength: Infinity,
+        });
+    }
+
+    async get(key: string): Promise<StoredContent> {
+        const response = await axios({
+            url: this.url(key),
+            method: "GET",
+            responseType: "stream",
+            headers: this.sign("GET", key, {}),
+            validateStatus: status => status < 300 || status === 404,
+        });
+        if (response.status === 404) {
+            throw new NotFoundException("File does not exist");
+        }
+        const originalName = response.headers["x-amz-meta-original-name"];
+        return {
+            content: response.data as Readable,
+            mimeType: response.headers["content-type"],
+            originalName: originalName ? decodeURIComponent(originalName) : undefined,
+        };
+    }
+
+    async delete(key: string) {
+        await axios({
+            url: this.url(key),
+            method: "DELETE",
+            headers: this.sign("DELETE", key, {}),
+        });
+    }
+
+    signedUrl(key: string, expiresIn: number) {
+        const { amzDate, dateStamp, credentialScope } = this.scope(new Date());
+        const query = [
+            ["X-Amz-Algorithm", "AWS4-HMAC-SHA256"],
+            ["X-Amz-Credential", `${this.options.accessKeyId}/${credentialScope}`],
+            ["X-Amz-Date", amzDate],
+            ["X-Amz-Expires", Math.floor(expiresIn / 1000).toString()],
+            ["X-Amz-SignedHeaders", "host"],
+        ]
+            .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+            .sort()
+            .join("&");
+        const canonicalRequest = [
+            "GET", this.canonicalPath(key), query, `host:${this.endpoint.host}\n`, "host", "UNSIGNED-PAYLOAD",
+        ].join("\n");
+        const stringToSign = ["AWS4-HMAC-SHA256", amzDate, credentialScope, sha256(canonicalRequest)].join("\n");
+        return `${this.url(key)}?${query}&X-Amz-Signature=${this.signature(dateStamp, stringToSign)}`;
+    }
+}
+
+const magicNumbers: { mimeType: string; offset: number; bytes: number[] }[] = [
+    { mimeType: "image/jpeg", offset: 0, bytes: [0xFF, 0xD8, 0xFF] },
+    { mimeType: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+    { mimeType: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+    { mimeType: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+    { mimeType: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+    { mimeType: "application/zip", offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04] },
+    { mimeType: "video/mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+];
+
+const zipBasedMimeTypes = [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+export function detectMimeType(header: Buffer) {
+    return magicNumbers.find(magic =>
+        magic.bytes.every((byte, index) => header[magic.offset + index] === byte)
+    )?.mimeType;
+}
+
+async function readHeader(path: string) {
+    const handle = await fs.open(path, "r");
+    try {
+        const header = Buffer.alloc(16);
+        await handle.read(header, 0, header.length, 0);
+        return header;
+    } finally {
+        await handle.close();
+    }
+}
+
+function isAllowedMimeType(declared: string, detected: string | undefined, allowed?: string[]) {
+    if (!allowed) {
+        return true;
+    }
+    if (!detected) {
+        return declared.startsWith("text/") && allowed.includes(declared);
+    }
+    if (detected === "application/zip" && zipBasedMimeTypes.includes(declared)) {
+        return allowed.includes(declared);
+    }
+    return allowed.includes(detected);
+}
+
+// multer decodes multipart filenames as latin1, browsers send them as utf-8.
+function originalName(file: Express.Multer.File) {
+    return Buffer.from(file.originalname, "latin1").toString("utf-8");
+}
+
+export function validFiles(storage: StorageBackend, rules: FileRule[], keyPrefix: string = ""): Middleware {
+    const upload = multer({
+        dest: uploadEnv.UPLOAD_TEMP_DIRECTORY,
+        limits: {
+            fileSize: Math.max(...rules.map(rule => rule.maxSize || 1024 * 1024 * 10)),
+            files: rules.reduce((total, rule) => total + (rule.maxCount || 1), 0),
+        },
+    }).fields(rules.map(rule => ({ name: rule.field, maxCount: rule.maxCount || 1 })));
+
+    const store = asyncMiddleware(async function (request, _response) {
+        const uploaded = (request.files || {}) as Record<string, Express.Multer.File[]>;
+        const temporary = Object.values(uploaded).flat();
+
+        try {
+            // Multipart bodies are only readable after multer, so websites with csrf enabled check it here.
+            if (request.app.get("csrf")) {
+                assertCsrf(request);
+            }
+            const files: Record<string, StoredFile[]> = {};
+            for (const rule of rules) {
+                const fieldFiles = uploaded[rule.field] || [];
+                if (rule.required && fieldFiles.length === 0) {
+                    throw new WrongParameterException(`File ${rule.field} is required`);
+                }
+
+                files[rule.field] = [];
+                for (const file of fieldFiles) {
+                    if (rule.maxSize && file.size > rule.maxSize) {
+                        throw new WrongParameterException(`File ${originalName(file)} exceeds ${rule.maxSize} bytes`);
+                    }
+                    const detected = detectMimeType(await readHeader(file.path));
+                    if (!isAllowedMimeType(file.mimetype, detected, rule.mimeTypes)) {
+                        throw new WrongParameterException(`File ${originalName(file)} has a forbidden type`);
+                    }
+
+                    const mimeType = detected && detected !== "application/zip" ? detected : file.mimetype;
+                    const key = `${keyPrefix}${uuid()}`;
+                    await storage.put(key, createReadStream(file.path), file.size, {
+                        mimeType,
+                        originalName: originalName(file),
+                    });
+                    files[rule.field].push({
+                        key,
+                        field: rule.field,
+                        originalName: originalName(file),
+                        mimeType,
+                        size: file.size,
+                    });
+                }
+            }
+            request.data.files = files;
+        } finally {
+            await Promise.all(temporary.map(file => fs.rm(file.path, { force: true })));
+        }
+    });
+
+    return withMetadata(function (request, response, next) {
+        upload(request, response, function (error?: unknown) {
+            if (error) {
+                next(error);
+                return;
+            }
+            store(request, response, next);
+        });
+    }, { files: rules.map(rule => rule.field) });
+}
+
+function urlSignature(key: string, expires: number) {
+    return createHmac("sha256", uploadEnv.UPLOAD_URL_SECRET || env.JWT_SECRET)
+        .update(`${key}:${expires}`)
+        .digest("base64url");
+}
+
+export function signedDownloadUrl(storage: StorageBackend, key: string, expiresIn: number = 1000 * 60 * 10, path: string = "/files") {
+    if (storage.signedUrl) {
+        return storage.signedUrl(key, expiresIn);
+    }
+    const expires = Date.now() + expiresIn;
+    return `${path}/${encodeURIComponent(key)}?expires=${expires}&signature=${urlSignature(key, expires)}`;
+}
+
+export function downloadRouter(storage: StorageBackend, path: string = "/files"): ExpressRouter {
+    return {
+        method: "GET",
+        path: `${path}/:key`,
+        middlewares: [asyncMiddleware(async function (request, response) {
+            const key = request.params.key;
+            const { expires, signature } = Joi.attempt(request.query, Joi.object({
+                expires: Joi.number().integer().required(),
+                signature: Joi.string().required(),
+            }));
+            const expected = Buffer.from(urlSignature(key, expires));
+            const actual = Buffer.from(signature);
+            if (expires < Date.now() || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+                throw new UnauthorizedException("Invalid or expired download url");
+            }
+
+            const stored = await storage.get(key);
+            response.attachment(stored.originalName || key);
+            response.type(stored.mimeType || "application/octet-stream");
+            await pipeline(stored.content, response);
+        })],
+    };
+}